@@ -3,12 +3,29 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/contexts/AuthContext";
+import { CartProvider } from "@/contexts/CartContext";
+import CartSheet from "@/components/CartSheet";
+import { RequireRole } from "@/components/auth/RequireRole";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
+import AuthCallback from "./pages/AuthCallback";
+import ResetPassword from "./pages/ResetPassword";
+import UpdatePassword from "./pages/UpdatePassword";
 import VendorDashboard from "./pages/VendorDashboard";
 import RiderDashboard from "./pages/RiderDashboard";
 import CustomerDashboard from "./pages/CustomerDashboard";
+import ProductDetail from "./pages/ProductDetail";
+import Search from "./pages/Search";
+import CategoryPage from "./pages/CategoryPage";
+import Checkout from "./pages/Checkout";
+import PaymentComplete from "./pages/PaymentComplete";
+import MockGateway from "./pages/MockGateway";
+import ApplicationStatus from "./pages/ApplicationStatus";
+import AdminConsole from "./pages/AdminConsole";
+import Account from "./pages/Account";
+import Storefront from "./pages/Storefront";
 
 const queryClient = new QueryClient();
 
@@ -18,15 +35,89 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/vendor/dashboard" element={<VendorDashboard />} />
-          <Route path="/rider/dashboard" element={<RiderDashboard />} />
-          <Route path="/customer/dashboard" element={<CustomerDashboard />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <CartProvider>
+            <CartSheet />
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/auth/callback" element={<AuthCallback />} />
+              <Route path="/auth/reset" element={<ResetPassword />} />
+              <Route path="/auth/update-password" element={<UpdatePassword />} />
+              <Route
+                path="/application"
+                element={
+                  <RequireRole>
+                    <ApplicationStatus />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/account"
+                element={
+                  <RequireRole>
+                    <Account />
+                  </RequireRole>
+                }
+              />
+              <Route path="/products/:id" element={<ProductDetail />} />
+              <Route path="/search" element={<Search />} />
+              <Route path="/category/:slug" element={<CategoryPage />} />
+              <Route path="/store/:vendorSlug" element={<Storefront />} />
+              <Route
+                path="/checkout"
+                element={
+                  <RequireRole role="customer">
+                    <Checkout />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/checkout/complete"
+                element={
+                  <RequireRole role="customer">
+                    <PaymentComplete />
+                  </RequireRole>
+                }
+              />
+              <Route path="/checkout/mock-gateway" element={<MockGateway />} />
+              <Route
+                path="/vendor/dashboard"
+                element={
+                  <RequireRole role="vendor">
+                    <VendorDashboard />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/rider/dashboard"
+                element={
+                  <RequireRole role="rider">
+                    <RiderDashboard />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/customer/dashboard"
+                element={
+                  <RequireRole role="customer">
+                    <CustomerDashboard />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/admin"
+                element={
+                  <RequireRole role="admin">
+                    <AdminConsole />
+                  </RequireRole>
+                }
+              />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </CartProvider>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
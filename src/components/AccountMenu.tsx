@@ -0,0 +1,100 @@
+import { Link, useNavigate } from "react-router-dom";
+import { ClipboardList, LayoutDashboard, LogOut, Settings, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/contexts/AuthContext";
+import { cn } from "@/lib/utils";
+import { roleHomePaths, roleLabels, type AppRole } from "@/lib/roles";
+
+interface AccountMenuProps {
+  className?: string;
+}
+
+const AccountMenu = ({ className }: AccountMenuProps) => {
+  const navigate = useNavigate();
+  const { user, roles, activeRole, setActiveRole, applications, homePath, signOut } = useAuth();
+
+  if (!user) {
+    return (
+      <Link to="/auth">
+        <Button variant="ghost" className={cn("gap-2", className)}>
+          <User className="h-5 w-5" />
+          <span>Account</span>
+        </Button>
+      </Link>
+    );
+  }
+
+  const handleSwitchRole = (role: string) => {
+    setActiveRole(role as AppRole);
+    navigate(roleHomePaths[role as AppRole]);
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/auth");
+  };
+
+  const hasOpenApplication = applications.some((application) => application.status !== "approved");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className={cn("gap-2", className)}>
+          <User className="h-5 w-5" />
+          <span>{activeRole ? roleLabels[activeRole] : "Account"}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          <p className="text-sm font-medium truncate">{user.user_metadata?.full_name || "My account"}</p>
+          <p className="text-xs text-muted-foreground truncate">{user.email || user.phone}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => navigate(homePath)}>
+          <LayoutDashboard className="h-4 w-4 mr-2" />
+          Dashboard
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/account")}>
+          <Settings className="h-4 w-4 mr-2" />
+          Account Settings
+        </DropdownMenuItem>
+        {hasOpenApplication && (
+          <DropdownMenuItem onClick={() => navigate("/application")}>
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Application Status
+          </DropdownMenuItem>
+        )}
+        {roles.length > 1 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Switch role</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={activeRole ?? undefined} onValueChange={handleSwitchRole}>
+              {roles.map((role) => (
+                <DropdownMenuRadioItem key={role} value={role}>
+                  {roleLabels[role]}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleSignOut}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign Out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default AccountMenu;
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { LocateFixed } from "lucide-react";
+import { z } from "zod";
+import { addressLabels, type CustomerAddress } from "@/lib/addresses";
+import { getCurrentPosition, type Coordinates } from "@/lib/geo";
+
+const addressSchema = z.object({
+  label: z.string().trim().min(1, { message: "Label is required" }).max(50),
+  addressLine: z.string().trim().min(5, { message: "Street address is required" }).max(200),
+  city: z.string().trim().min(2, { message: "City is required" }).max(100),
+  state: z.string().trim().min(2, { message: "State is required" }).max(100),
+  landmark: z.string().trim().max(100).optional(),
+  isDefault: z.boolean(),
+});
+
+interface AddressFormProps {
+  onSaved: (address: CustomerAddress) => void;
+  onCancel?: () => void;
+}
+
+const AddressForm = ({ onSaved, onCancel }: AddressFormProps) => {
+  const [formData, setFormData] = useState({
+    label: "Home",
+    addressLine: "",
+    city: "",
+    state: "",
+    landmark: "",
+    isDefault: false,
+  });
+  // Optional pin so riders can be matched by distance to the drop-off
+  const [location, setLocation] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleUseLocation = async () => {
+    try {
+      setLocating(true);
+      setLocation(await getCurrentPosition());
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = addressSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) fieldErrors[err.path[0].toString()] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase
+        .from("customer_addresses")
+        .insert({
+          customer_id: session.user.id,
+          label: result.data.label,
+          address_line: result.data.addressLine,
+          city: result.data.city,
+          state: result.data.state,
+          landmark: result.data.landmark || null,
+          is_default: result.data.isDefault,
+          latitude: location?.latitude ?? null,
+          longitude: location?.longitude ?? null,
+        })
+        .select("id, label, address_line, city, state, landmark, is_default")
+        .single();
+
+      if (error) throw error;
+      toast.success("Address saved");
+      onSaved(data);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save address");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="address-label">Label</Label>
+          <Select value={formData.label} onValueChange={(value) => setFormData({ ...formData, label: value })}>
+            <SelectTrigger id="address-label">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {addressLabels.map((label) => (
+                <SelectItem key={label} value={label}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="address-landmark">Landmark (Optional)</Label>
+          <Input
+            id="address-landmark"
+            value={formData.landmark}
+            onChange={(e) => setFormData({ ...formData, landmark: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="address-line">Street Address</Label>
+        <Input
+          id="address-line"
+          placeholder="12 Admiralty Way, Lekki Phase 1"
+          value={formData.addressLine}
+          onChange={(e) => setFormData({ ...formData, addressLine: e.target.value })}
+        />
+        {errors.addressLine && <p className="text-sm text-destructive">{errors.addressLine}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="address-city">City</Label>
+          <Input
+            id="address-city"
+            value={formData.city}
+            onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+          />
+          {errors.city && <p className="text-sm text-destructive">{errors.city}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="address-state">State</Label>
+          <Input
+            id="address-state"
+            value={formData.state}
+            onChange={(e) => setFormData({ ...formData, state: e.target.value })}
+          />
+          {errors.state && <p className="text-sm text-destructive">{errors.state}</p>}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+        <p className="text-sm text-muted-foreground">
+          {location ? "Pinned to your current location" : "Pin this address so nearby riders get your order first"}
+        </p>
+        <Button type="button" variant="outline" size="sm" disabled={locating} onClick={handleUseLocation}>
+          <LocateFixed className="h-4 w-4 mr-2" />
+          {locating ? "Locating..." : location ? "Update Pin" : "I'm Here Now"}
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="address-default"
+          checked={formData.isDefault}
+          onCheckedChange={(checked) => setFormData({ ...formData, isDefault: checked === true })}
+        />
+        <Label htmlFor="address-default" className="text-sm font-normal">
+          Use as my default address
+        </Label>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving}>
+          {saving ? "Saving..." : "Save Address"}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default AddressForm;
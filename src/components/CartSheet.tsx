@@ -0,0 +1,124 @@
+import { Link, useNavigate } from "react-router-dom";
+import { ShoppingCart, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import QuantitySelector from "@/components/QuantitySelector";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCart } from "@/contexts/CartContext";
+import { formatPrice } from "@/lib/utils";
+
+const CartSheet = () => {
+  const navigate = useNavigate();
+  const { session } = useAuth();
+  const { items, itemCount, subtotal, isOpen, setOpen, updateQuantity, removeItem } = useCart();
+
+  const hasStockProblem = items.some((item) => item.quantity > item.product.stock);
+
+  const handleCheckout = () => {
+    // Checkout is guarded, so signed-out shoppers come back to it after signing in
+    if (!session) {
+      toast.error("Please sign in to check out");
+    }
+    setOpen(false);
+    navigate("/checkout");
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setOpen}>
+        <SheetContent className="flex flex-col w-full sm:max-w-md">
+          <SheetHeader>
+            <SheetTitle>Your Cart</SheetTitle>
+            <SheetDescription>
+              {itemCount === 0 ? "Your cart is empty" : `${itemCount} ${itemCount === 1 ? "item" : "items"}`}
+            </SheetDescription>
+          </SheetHeader>
+
+          {items.length === 0 ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-center text-muted-foreground">
+              <ShoppingCart className="h-16 w-16 mb-4" />
+              <p className="mb-4">Add products to your cart to see them here.</p>
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Continue Shopping
+              </Button>
+            </div>
+          ) : (
+            <>
+              <ScrollArea className="flex-1 -mx-6 px-6">
+                <ul className="divide-y">
+                  {items.map((item) => (
+                    <li key={item.productId} className="flex gap-4 py-4">
+                      <img
+                        src={item.product.image_url || "/placeholder.svg"}
+                        alt={item.product.name}
+                        className="h-20 w-20 rounded-md object-cover border"
+                      />
+                      <div className="flex-1 space-y-2">
+                        <div className="flex justify-between gap-2">
+                          <Link
+                            to={`/products/${item.productId}`}
+                            onClick={() => setOpen(false)}
+                            className="font-medium line-clamp-2 hover:text-primary"
+                          >
+                            {item.product.name}
+                          </Link>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            onClick={() => removeItem(item.productId)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <QuantitySelector
+                            value={item.quantity}
+                            max={item.product.stock}
+                            onChange={(quantity) => updateQuantity(item.productId, quantity)}
+                          />
+                          <span className="font-semibold">
+                            {formatPrice(item.product.price * item.quantity)}
+                          </span>
+                        </div>
+                        {item.quantity > item.product.stock && (
+                          <p className="text-xs text-destructive">
+                            Only {item.product.stock} left in stock
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+
+              <SheetFooter className="flex-col sm:flex-col gap-4 border-t pt-4">
+                <div className="flex justify-between text-lg font-semibold">
+                  <span>Subtotal</span>
+                  <span className="text-primary">{formatPrice(subtotal)}</span>
+                </div>
+                <Button
+                  size="lg"
+                  className="w-full bg-gradient-to-r from-primary to-amber-500 hover:opacity-90"
+                  disabled={hasStockProblem}
+                  onClick={handleCheckout}
+                >
+                  Checkout
+                </Button>
+              </SheetFooter>
+            </>
+          )}
+        </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CartSheet;
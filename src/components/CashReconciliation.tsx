@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Banknote } from "lucide-react";
+import { formatPrice } from "@/lib/utils";
+
+interface RiderCashBalance {
+  rider_id: string;
+  rider_name: string | null;
+  rider_phone: string | null;
+  outstanding_amount: number;
+  outstanding_orders: number;
+  oldest_collected_at: string;
+}
+
+interface CashReconciliationProps {
+  // Admins can see every balance but only the vendor who is owed can confirm receipt
+  canConfirm?: boolean;
+}
+
+// Cash on delivery money riders have collected but not yet handed over
+const CashReconciliation = ({ canConfirm = true }: CashReconciliationProps) => {
+  const [balances, setBalances] = useState<RiderCashBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [settlingRiderId, setSettlingRiderId] = useState<string | null>(null);
+
+  const loadBalances = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc("get_rider_cash_balances");
+      if (error) throw error;
+      setBalances(data || []);
+    } catch (error) {
+      toast.error("Failed to load cash balances");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  const handleConfirmRemittance = async (balance: RiderCashBalance) => {
+    try {
+      setSettlingRiderId(balance.rider_id);
+      const { data, error } = await supabase.rpc("confirm_cash_remittance", { _rider_id: balance.rider_id });
+      if (error) throw error;
+
+      toast.success(`Recorded ${formatPrice(data)} received from ${balance.rider_name || "rider"}`);
+      loadBalances();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to confirm remittance");
+    } finally {
+      setSettlingRiderId(null);
+    }
+  };
+
+  const totalOutstanding = balances.reduce((sum, balance) => sum + balance.outstanding_amount, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Banknote className="h-5 w-5" />
+          Cash on Delivery Remittances
+        </CardTitle>
+        <CardDescription>
+          {balances.length === 0
+            ? "No riders are holding cash for delivered orders"
+            : `${formatPrice(totalOutstanding)} outstanding across ${balances.length} ${
+                balances.length === 1 ? "rider" : "riders"
+              }`}
+        </CardDescription>
+      </CardHeader>
+      {!loading && balances.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rider</TableHead>
+                <TableHead>Deliveries</TableHead>
+                <TableHead>Oldest collection</TableHead>
+                <TableHead className="text-right">Owed</TableHead>
+                {canConfirm && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {balances.map((balance) => (
+                <TableRow key={balance.rider_id}>
+                  <TableCell>
+                    <p className="font-medium">{balance.rider_name || "Unnamed rider"}</p>
+                    {balance.rider_phone && (
+                      <p className="text-xs text-muted-foreground">{balance.rider_phone}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{balance.outstanding_orders}</TableCell>
+                  <TableCell>{new Date(balance.oldest_collected_at).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right font-semibold">
+                    {formatPrice(balance.outstanding_amount)}
+                  </TableCell>
+                  {canConfirm && (
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={settlingRiderId === balance.rider_id}
+                        onClick={() => handleConfirmRemittance(balance)}
+                      >
+                        Mark Received
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default CashReconciliation;
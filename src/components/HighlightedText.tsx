@@ -0,0 +1,33 @@
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const HighlightedText = ({ text, query }: HighlightedTextProps) => {
+  const terms = query
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1)
+    .map(escapeRegExp);
+
+  if (terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.join("|")})`, "gi");
+
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-amber-200 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
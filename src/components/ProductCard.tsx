@@ -1,30 +1,46 @@
 import { Star, Heart } from "lucide-react";
+import { Link } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import HighlightedText from "@/components/HighlightedText";
+import { useCart } from "@/contexts/CartContext";
+import { formatPrice } from "@/lib/utils";
+
+const LOW_STOCK_THRESHOLD = 5;
 
 interface ProductCardProps {
-  image: string;
-  title: string;
-  price: string;
-  originalPrice?: string;
-  rating: number;
-  reviews: number;
-  discount?: string;
+  id: string;
+  name: string;
+  price: number;
+  imageUrl: string | null;
+  stock: number;
+  rating?: number;
+  reviews?: number;
+  highlight?: string;
 }
 
-const ProductCard = ({ image, title, price, originalPrice, rating, reviews, discount }: ProductCardProps) => {
+const ProductCard = ({ id, name, price, imageUrl, stock, rating, reviews, highlight }: ProductCardProps) => {
+  const { addItem } = useCart();
+  const outOfStock = stock <= 0;
+
   return (
     <Card className="group overflow-hidden hover:shadow-xl transition-all duration-300 border-2 hover:border-primary">
       <div className="relative overflow-hidden">
-        <img
-          src={image}
-          alt={title}
-          className="w-full h-48 object-cover group-hover:scale-110 transition-transform duration-300"
-        />
-        {discount && (
+        <Link to={`/products/${id}`}>
+          <img
+            src={imageUrl || "/placeholder.svg"}
+            alt={name}
+            className="w-full h-48 object-cover group-hover:scale-110 transition-transform duration-300"
+          />
+        </Link>
+        {outOfStock ? (
+          <Badge className="absolute top-2 left-2" variant="secondary">
+            Out of stock
+          </Badge>
+        ) : stock <= LOW_STOCK_THRESHOLD && (
           <Badge className="absolute top-2 left-2 bg-destructive">
-            -{discount}
+            Only {stock} left
           </Badge>
         )}
         <Button
@@ -37,29 +53,38 @@ const ProductCard = ({ image, title, price, originalPrice, rating, reviews, disc
       </div>
 
       <div className="p-4 space-y-3">
-        <h3 className="font-medium line-clamp-2 h-12">{title}</h3>
-        
-        <div className="flex items-center gap-1">
-          {[...Array(5)].map((_, i) => (
-            <Star
-              key={i}
-              className={`h-4 w-4 ${
-                i < rating ? "fill-amber-400 text-amber-400" : "text-gray-300"
-              }`}
-            />
-          ))}
-          <span className="text-sm text-muted-foreground ml-1">({reviews})</span>
-        </div>
+        <Link to={`/products/${id}`} className="hover:text-primary transition-colors">
+          <h3 className="font-medium line-clamp-2 h-12">
+            {highlight ? <HighlightedText text={name} query={highlight} /> : name}
+          </h3>
+        </Link>
+
+        {rating !== undefined && (
+          <div className="flex items-center gap-1">
+            {[...Array(5)].map((_, i) => (
+              <Star
+                key={i}
+                className={`h-4 w-4 ${
+                  i < Math.round(rating) ? "fill-amber-400 text-amber-400" : "text-gray-300"
+                }`}
+              />
+            ))}
+            {reviews !== undefined && (
+              <span className="text-sm text-muted-foreground ml-1">({reviews})</span>
+            )}
+          </div>
+        )}
 
         <div className="flex items-center gap-2">
-          <span className="text-xl font-bold text-primary">{price}</span>
-          {originalPrice && (
-            <span className="text-sm text-muted-foreground line-through">{originalPrice}</span>
-          )}
+          <span className="text-xl font-bold text-primary">{formatPrice(price)}</span>
         </div>
 
-        <Button className="w-full bg-gradient-to-r from-primary to-amber-500 hover:opacity-90">
-          Add to Cart
+        <Button
+          className="w-full bg-gradient-to-r from-primary to-amber-500 hover:opacity-90"
+          disabled={outOfStock}
+          onClick={() => addItem(id)}
+        >
+          {outOfStock ? "Out of Stock" : "Add to Cart"}
         </Button>
       </div>
     </Card>
@@ -0,0 +1,48 @@
+import { Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface QuantitySelectorProps {
+  value: number;
+  max: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const QuantitySelector = ({ value, max, onChange, disabled = false }: QuantitySelectorProps) => {
+  const clamp = (next: number) => Math.min(Math.max(next, 1), Math.max(max, 1));
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={() => onChange(clamp(value - 1))}
+        disabled={disabled || value <= 1}
+      >
+        <Minus className="h-4 w-4" />
+      </Button>
+      <Input
+        type="number"
+        min={1}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(clamp(parseInt(e.target.value) || 1))}
+        className="w-16 text-center"
+        disabled={disabled}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={() => onChange(clamp(value + 1))}
+        disabled={disabled || value >= max}
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default QuantitySelector;
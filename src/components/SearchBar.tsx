@@ -0,0 +1,165 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Search } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import HighlightedText from "@/components/HighlightedText";
+import { useDebounce } from "@/hooks/use-debounce";
+import { cn } from "@/lib/utils";
+
+const MIN_SUGGESTION_LENGTH = 2;
+
+interface Suggestion {
+  id: string;
+  name: string;
+  category: string | null;
+}
+
+const SearchBar = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [query, setQuery] = useState(searchParams.get("q") || "");
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const debouncedQuery = useDebounce(query.trim());
+
+  useEffect(() => {
+    setQuery(searchParams.get("q") || "");
+  }, [searchParams]);
+
+  useEffect(() => {
+    if (debouncedQuery.length < MIN_SUGGESTION_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .rpc("search_product_suggestions", { _query: debouncedQuery, _limit: 8 })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error(error);
+          return;
+        }
+        setSuggestions(data || []);
+        setActiveIndex(-1);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const submitSearch = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    setOpen(false);
+    navigate(`/search?q=${encodeURIComponent(trimmed)}`);
+  };
+
+  const openSuggestion = (suggestion: Suggestion) => {
+    setOpen(false);
+    navigate(`/products/${suggestion.id}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === "Enter" && activeIndex >= 0) {
+      e.preventDefault();
+      openSuggestion(suggestions[activeIndex]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const showSuggestions = open && query.trim().length >= MIN_SUGGESTION_LENGTH && suggestions.length > 0;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <form
+        role="search"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitSearch(query);
+        }}
+      >
+        <Input
+          type="search"
+          placeholder="Search for products, brands and categories..."
+          className="w-full pl-4 pr-12 h-11"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+        />
+        <Button type="submit" size="icon" className="absolute right-0 top-0 h-11 rounded-l-none">
+          <Search className="h-5 w-5" />
+        </Button>
+      </form>
+
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className="absolute z-50 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-lg overflow-hidden"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => openSuggestion(suggestion)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "flex justify-between items-center px-4 py-2 text-sm cursor-pointer",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span className="line-clamp-1">
+                <HighlightedText text={suggestion.name} query={query} />
+              </span>
+              {suggestion.category && (
+                <span className="text-xs text-muted-foreground ml-4 shrink-0">{suggestion.category}</span>
+              )}
+            </li>
+          ))}
+          <li
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => submitSearch(query)}
+            className="px-4 py-2 text-sm text-primary border-t cursor-pointer hover:bg-accent"
+          >
+            See all results for "{query.trim()}"
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
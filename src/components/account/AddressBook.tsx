@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { MapPin, Plus, Trash2 } from "lucide-react";
+import AddressForm from "@/components/AddressForm";
+import { formatAddress, type CustomerAddress } from "@/lib/addresses";
+
+interface AddressBookProps {
+  userId: string;
+}
+
+const AddressBook = ({ userId }: AddressBookProps) => {
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadAddresses = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("customer_addresses")
+        .select("id, label, address_line, city, state, landmark, is_default")
+        .eq("customer_id", userId)
+        .order("is_default", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setAddresses(data || []);
+    } catch (error) {
+      toast.error("Failed to load addresses");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadAddresses();
+  }, [loadAddresses]);
+
+  const handleMakeDefault = async (address: CustomerAddress) => {
+    try {
+      setUpdatingId(address.id);
+      const { error } = await supabase.from("customer_addresses").update({ is_default: true }).eq("id", address.id);
+      if (error) throw error;
+      loadAddresses();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update address");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (address: CustomerAddress) => {
+    try {
+      setUpdatingId(address.id);
+      const { error } = await supabase.from("customer_addresses").delete().eq("id", address.id);
+      if (error) throw error;
+
+      toast.success("Address removed");
+      setAddresses((current) => current.filter((existing) => existing.id !== address.id));
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove address");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Saved Addresses</CardTitle>
+          <CardDescription>Your default address is preselected at checkout</CardDescription>
+        </div>
+        {!showForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Address
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="rounded-lg border p-4">
+            <AddressForm
+              onSaved={() => {
+                setShowForm(false);
+                loadAddresses();
+              }}
+              onCancel={() => setShowForm(false)}
+            />
+          </div>
+        )}
+
+        {!loading && addresses.length === 0 && !showForm && (
+          <p className="text-sm text-muted-foreground">You haven't saved any addresses yet.</p>
+        )}
+
+        {addresses.map((address) => (
+          <div key={address.id} className="flex items-start gap-3 rounded-lg border p-4">
+            <MapPin className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{address.label}</span>
+                {address.is_default && <Badge variant="secondary">Default</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">{formatAddress(address)}</p>
+              {!address.is_default && (
+                <button
+                  type="button"
+                  className="text-sm text-primary hover:underline disabled:opacity-50"
+                  disabled={updatingId === address.id}
+                  onClick={() => handleMakeDefault(address)}
+                >
+                  Make default
+                </button>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              disabled={updatingId === address.id}
+              onClick={() => handleDelete(address)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AddressBook;
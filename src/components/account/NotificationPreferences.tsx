@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+
+export interface NotificationSettings {
+  notify_order_email: boolean;
+  notify_order_sms: boolean;
+  notify_promotions: boolean;
+}
+
+const preferenceOptions: { key: keyof NotificationSettings; title: string; description: string }[] = [
+  {
+    key: "notify_order_email",
+    title: "Order updates by email",
+    description: "Confirmations, dispatch and delivery notices",
+  },
+  {
+    key: "notify_order_sms",
+    title: "Order updates by SMS",
+    description: "A text when your rider is on the way",
+  },
+  {
+    key: "notify_promotions",
+    title: "Deals and promotions",
+    description: "Occasional offers from Jiffy NG and our vendors",
+  },
+];
+
+interface NotificationPreferencesProps {
+  userId: string;
+  settings: NotificationSettings;
+}
+
+const NotificationPreferences = ({ userId, settings }: NotificationPreferencesProps) => {
+  const [values, setValues] = useState(settings);
+
+  // Saves each switch as it's flipped and puts it back if the save fails
+  const handleToggle = async (key: keyof NotificationSettings, enabled: boolean) => {
+    setValues((current) => ({ ...current, [key]: enabled }));
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ [key]: enabled })
+      .eq("id", userId);
+
+    if (error) {
+      setValues((current) => ({ ...current, [key]: !enabled }));
+      toast.error(error.message || "Failed to save preference");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Choose what we contact you about</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {preferenceOptions.map((option) => (
+          <div key={option.key} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={option.key}>{option.title}</Label>
+              <p className="text-sm text-muted-foreground">{option.description}</p>
+            </div>
+            <Switch
+              id={option.key}
+              checked={values[option.key]}
+              onCheckedChange={(checked) => handleToggle(option.key, checked)}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferences;
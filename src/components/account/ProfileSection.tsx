@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Upload } from "lucide-react";
+import { z } from "zod";
+import { normalizeNigerianPhone } from "@/lib/phone";
+
+const AVATAR_BUCKET = "avatars";
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+const profileSchema = z.object({
+  fullName: z.string().trim().min(1, { message: "Name is required" }).max(100),
+  phone: z
+    .string()
+    .trim()
+    .transform((value, ctx) => {
+      const normalized = normalizeNigerianPhone(value);
+      if (!normalized) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a Nigerian mobile number, e.g. 0803 123 4567" });
+        return z.NEVER;
+      }
+      return normalized;
+    }),
+});
+
+export interface ProfileDetails {
+  full_name: string | null;
+  phone: string | null;
+  avatar_url: string | null;
+}
+
+interface ProfileSectionProps {
+  userId: string;
+  email: string | undefined;
+  profile: ProfileDetails;
+  onSaved: (profile: ProfileDetails) => void;
+}
+
+const initialsOf = (name: string | null) =>
+  (name || "?")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+// Storage path of a public avatar URL, so the previous picture can be removed
+const avatarPath = (url: string) => url.split(`/${AVATAR_BUCKET}/`)[1];
+
+const ProfileSection = ({ userId, email, profile, onSaved }: ProfileSectionProps) => {
+  const [formData, setFormData] = useState({
+    fullName: profile.full_name || "",
+    phone: profile.phone || "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = profileSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) fieldErrors[err.path[0].toString()] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { data, error } = await supabase
+        .from("profiles")
+        .update({ full_name: result.data.fullName, phone: result.data.phone })
+        .eq("id", userId)
+        .select("full_name, phone, avatar_url")
+        .single();
+      if (error) throw error;
+
+      setFormData({ fullName: data.full_name || "", phone: data.phone || "" });
+      toast.success("Profile saved");
+      onSaved(data);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Choose an image file");
+      return;
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast.error("Image size must be less than 2MB");
+      return;
+    }
+
+    try {
+      setUploading(true);
+      const fileExt = file.name.split(".").pop();
+      // A new name each time so browsers and the CDN don't show the old picture
+      const filePath = `${userId}/avatar-${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage.from(AVATAR_BUCKET).upload(filePath, file);
+      if (uploadError) throw uploadError;
+
+      const { data: urlData } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(filePath);
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .update({ avatar_url: urlData.publicUrl })
+        .eq("id", userId)
+        .select("full_name, phone, avatar_url")
+        .single();
+      if (error) throw error;
+
+      if (profile.avatar_url) {
+        await supabase.storage.from(AVATAR_BUCKET).remove([avatarPath(profile.avatar_url)]);
+      }
+
+      toast.success("Profile picture updated");
+      onSaved(data);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to upload picture");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>How vendors and riders see you on your orders</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Avatar className="h-20 w-20">
+            {profile.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.full_name || "Profile picture"} />}
+            <AvatarFallback className="text-xl">{initialsOf(profile.full_name)}</AvatarFallback>
+          </Avatar>
+          <div>
+            <Label htmlFor="avatar-upload" className="cursor-pointer">
+              <div className="inline-flex items-center gap-2 rounded-md border px-3 py-2 text-sm hover:bg-muted">
+                <Upload className="h-4 w-4" />
+                {uploading ? "Uploading..." : "Change Picture"}
+              </div>
+            </Label>
+            <input
+              id="avatar-upload"
+              type="file"
+              accept="image/*"
+              className="hidden"
+              disabled={uploading}
+              onChange={handleAvatarChange}
+            />
+            <p className="text-xs text-muted-foreground mt-2">JPG or PNG, up to 2MB</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-email">Email</Label>
+            <Input id="account-email" value={email || "Not set"} disabled />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Full Name</Label>
+            <Input
+              id="account-name"
+              value={formData.fullName}
+              onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+            />
+            {errors.fullName && <p className="text-sm text-destructive">{errors.fullName}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="account-phone">Phone Number</Label>
+            <Input
+              id="account-phone"
+              type="tel"
+              placeholder="0803 123 4567"
+              value={formData.phone}
+              onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+            />
+            {errors.phone && <p className="text-sm text-destructive">{errors.phone}</p>}
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? "Saving..." : "Save Changes"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfileSection;
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+
+interface PendingApplication {
+  id: string;
+  user_id: string;
+  role: string;
+  email: string;
+  full_name: string | null;
+  phone: string | null;
+  details: Record<string, string | null> | null;
+  created_at: string;
+}
+
+interface ApplicationsTableProps {
+  onReviewed: () => void;
+}
+
+const detailLabels: Record<string, string> = {
+  business_name: "Business",
+  business_address: "Address",
+  business_phone: "Phone",
+  business_description: "About",
+  vehicle_type: "Vehicle",
+  vehicle_plate_number: "Plate",
+  license_number: "Licence",
+  emergency_contact: "Emergency contact",
+};
+
+const ApplicationsTable = ({ onReviewed }: ApplicationsTableProps) => {
+  const [applications, setApplications] = useState<PendingApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<PendingApplication | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const loadApplications = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc("admin_list_role_applications");
+      if (error) throw error;
+      setApplications((data || []) as PendingApplication[]);
+    } catch (error) {
+      toast.error("Failed to load applications");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApplications();
+  }, [loadApplications]);
+
+  const review = async (application: PendingApplication, approve: boolean, reason?: string) => {
+    try {
+      setReviewingId(application.id);
+      const { error } = await supabase.rpc("review_role_application", {
+        _application_id: application.id,
+        _approve: approve,
+        _rejection_reason: reason,
+      });
+      if (error) throw error;
+
+      toast.success(`${application.full_name || application.email} ${approve ? "approved" : "rejected"}`);
+      setApplications((current) => current.filter((existing) => existing.id !== application.id));
+      setRejecting(null);
+      setRejectionReason("");
+      onReviewed();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to review application");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="py-8 text-center text-muted-foreground">Loading...</p>;
+  }
+
+  if (applications.length === 0) {
+    return <p className="py-8 text-center text-muted-foreground">No applications are waiting for review</p>;
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Applicant</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Details</TableHead>
+            <TableHead>Submitted</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {applications.map((application) => (
+            <TableRow key={application.id}>
+              <TableCell>
+                <p className="font-medium">{application.full_name || "Unnamed"}</p>
+                <p className="text-xs text-muted-foreground">{application.email}</p>
+                {application.phone && <p className="text-xs text-muted-foreground">{application.phone}</p>}
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline" className="capitalize">
+                  {application.role}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-sm">
+                {Object.entries(application.details || {})
+                  .filter(([, value]) => value)
+                  .map(([key, value]) => (
+                    <p key={key}>
+                      <span className="text-muted-foreground">{detailLabels[key] || key}:</span> {value}
+                    </p>
+                  ))}
+              </TableCell>
+              <TableCell>{new Date(application.created_at).toLocaleDateString()}</TableCell>
+              <TableCell className="text-right space-x-2 whitespace-nowrap">
+                <Button
+                  size="sm"
+                  disabled={reviewingId === application.id}
+                  onClick={() => review(application, true)}
+                >
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={reviewingId === application.id}
+                  onClick={() => setRejecting(application)}
+                >
+                  Reject
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setRejectionReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject application</DialogTitle>
+            <DialogDescription>
+              The applicant sees this reason and can update their details before resubmitting.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">Reason</Label>
+            <Textarea
+              id="rejection-reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="The plate number doesn't match the vehicle papers"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              disabled={!rejectionReason.trim() || reviewingId === rejecting?.id}
+              onClick={() => rejecting && review(rejecting, false, rejectionReason)}
+            >
+              Reject Application
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ApplicationsTable;
@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { formatPrice } from "@/lib/utils";
+import { displayName, type AdminUser } from "@/lib/admin";
+import { openDeliveryPhoto, type OrderStatus } from "@/lib/orders";
+
+interface AdminOrder {
+  id: string;
+  status: OrderStatus;
+  total_amount: number;
+  delivery_address: string;
+  customer_id: string;
+  vendor_id: string;
+  rider_id: string | null;
+  delivery_photo_path: string | null;
+  created_at: string;
+}
+
+interface OrdersTableProps {
+  users: AdminUser[];
+}
+
+const openStatuses: OrderStatus[] = ["pending", "accepted", "picked_up", "in_transit"];
+
+const statusFilters = [
+  { value: "open", label: "Open orders" },
+  { value: "delivered", label: "Delivered" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "all", label: "All orders" },
+];
+
+const OrdersTable = ({ users }: OrdersTableProps) => {
+  const [orders, setOrders] = useState<AdminOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [cancelling, setCancelling] = useState<AdminOrder | null>(null);
+  const [reassigning, setReassigning] = useState<AdminOrder | null>(null);
+  const [selectedRiderId, setSelectedRiderId] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const usersById = new Map(users.map((user) => [user.user_id, user]));
+  const activeRiders = users.filter((user) => user.roles.includes("rider") && !user.suspended_at);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from("orders")
+        .select("id, status, total_amount, delivery_address, customer_id, vendor_id, rider_id, delivery_photo_path, created_at")
+        .order("created_at", { ascending: false })
+        .limit(100);
+
+      if (statusFilter === "open") {
+        query = query.in("status", openStatuses);
+      } else if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter as OrderStatus);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setOrders(data || []);
+    } catch (error) {
+      toast.error("Failed to load orders");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const handleCancel = async () => {
+    if (!cancelling) return;
+    try {
+      setSaving(true);
+      const { error } = await supabase.rpc("admin_cancel_order", { _order_id: cancelling.id });
+      if (error) throw error;
+
+      toast.success("Order cancelled and stock restored");
+      setCancelling(null);
+      loadOrders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to cancel order");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReassign = async () => {
+    if (!reassigning || !selectedRiderId) return;
+    try {
+      setSaving(true);
+      const { error } = await supabase.rpc("admin_reassign_order", {
+        _order_id: reassigning.id,
+        _rider_id: selectedRiderId,
+      });
+      if (error) throw error;
+
+      toast.success(`Order assigned to ${displayName(usersById.get(selectedRiderId))}`);
+      setReassigning(null);
+      setSelectedRiderId("");
+      loadOrders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to reassign order");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleViewPhoto = async (path: string) => {
+    try {
+      await openDeliveryPhoto(path);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to open photo");
+    }
+  };
+
+  return (
+    <>
+      <Select value={statusFilter} onValueChange={setStatusFilter}>
+        <SelectTrigger className="mb-4 w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {statusFilters.map((filter) => (
+            <SelectItem key={filter.value} value={filter.value}>
+              {filter.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {loading ? (
+        <p className="py-8 text-center text-muted-foreground">Loading...</p>
+      ) : orders.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground">No orders to show</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead>Rider</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orders.map((order) => (
+              <TableRow key={order.id}>
+                <TableCell>
+                  <p className="font-mono text-xs">#{order.id.slice(0, 8)}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(order.created_at).toLocaleString()}</p>
+                </TableCell>
+                <TableCell>{displayName(usersById.get(order.customer_id))}</TableCell>
+                <TableCell>{displayName(usersById.get(order.vendor_id))}</TableCell>
+                <TableCell>
+                  {order.rider_id ? (
+                    displayName(usersById.get(order.rider_id))
+                  ) : (
+                    <span className="text-muted-foreground">Unassigned</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={order.status === "cancelled" ? "destructive" : "secondary"} className="capitalize">
+                    {order.status.replace("_", " ")}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right font-semibold">{formatPrice(order.total_amount)}</TableCell>
+                <TableCell className="text-right space-x-2 whitespace-nowrap">
+                  {openStatuses.includes(order.status) && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setReassigning(order);
+                          setSelectedRiderId(order.rider_id || "");
+                        }}
+                      >
+                        {order.rider_id ? "Reassign" : "Assign"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-destructive"
+                        onClick={() => setCancelling(order)}
+                      >
+                        Cancel
+                      </Button>
+                    </>
+                  )}
+                  {order.delivery_photo_path && (
+                    <Button size="sm" variant="outline" onClick={() => handleViewPhoto(order.delivery_photo_path)}>
+                      Delivery Photo
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <AlertDialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel order #{cancelling?.id.slice(0, 8)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The order is cancelled for the customer, vendor and rider, and its items go back into stock.
+              This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Order</AlertDialogCancel>
+            <AlertDialogAction disabled={saving} onClick={handleCancel}>
+              Cancel Order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog
+        open={!!reassigning}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReassigning(null);
+            setSelectedRiderId("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign a rider</DialogTitle>
+            <DialogDescription>{reassigning?.delivery_address}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="assign-rider">Rider</Label>
+            <Select value={selectedRiderId} onValueChange={setSelectedRiderId}>
+              <SelectTrigger id="assign-rider">
+                <SelectValue placeholder="Choose a rider" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeRiders.map((rider) => (
+                  <SelectItem key={rider.user_id} value={rider.user_id}>
+                    {displayName(rider)}
+                    {rider.phone ? ` · ${rider.phone}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button
+              disabled={saving || !selectedRiderId || selectedRiderId === reassigning?.rider_id}
+              onClick={handleReassign}
+            >
+              Assign Rider
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default OrdersTable;
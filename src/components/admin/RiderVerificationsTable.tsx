@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { FileText } from "lucide-react";
+import { documentLabel, openRiderDocument, type RiderDocumentType } from "@/lib/riders";
+
+interface RiderDocumentSummary {
+  document_type: RiderDocumentType;
+  storage_path: string;
+  file_name: string | null;
+  uploaded_at: string;
+}
+
+interface PendingRider {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  phone: string | null;
+  vehicle_type: string;
+  vehicle_plate_number: string;
+  license_number: string | null;
+  verification_submitted_at: string | null;
+  documents: RiderDocumentSummary[];
+}
+
+const RiderVerificationsTable = () => {
+  const [riders, setRiders] = useState<PendingRider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<PendingRider | null>(null);
+  const [rejectionNote, setRejectionNote] = useState("");
+
+  const loadRiders = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc("admin_list_rider_verifications");
+      if (error) throw error;
+      setRiders((data || []) as unknown as PendingRider[]);
+    } catch (error) {
+      toast.error("Failed to load rider verifications");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRiders();
+  }, [loadRiders]);
+
+  const review = async (rider: PendingRider, approve: boolean, note?: string) => {
+    try {
+      setReviewingId(rider.user_id);
+      const { error } = await supabase.rpc("admin_review_rider_verification", {
+        _rider_id: rider.user_id,
+        _approve: approve,
+        _note: note,
+      });
+      if (error) throw error;
+
+      toast.success(`${rider.full_name || rider.email} ${approve ? "verified" : "sent back for changes"}`);
+      setRiders((current) => current.filter((existing) => existing.user_id !== rider.user_id));
+      setRejecting(null);
+      setRejectionNote("");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to review rider");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleViewDocument = async (document: RiderDocumentSummary) => {
+    try {
+      await openRiderDocument(document.storage_path);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to open document");
+    }
+  };
+
+  if (loading) {
+    return <p className="py-8 text-center text-muted-foreground">Loading...</p>;
+  }
+
+  if (riders.length === 0) {
+    return <p className="py-8 text-center text-muted-foreground">No riders are waiting for verification</p>;
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Rider</TableHead>
+            <TableHead>Vehicle</TableHead>
+            <TableHead>Documents</TableHead>
+            <TableHead>Submitted</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {riders.map((rider) => (
+            <TableRow key={rider.user_id}>
+              <TableCell>
+                <p className="font-medium">{rider.full_name || "Unnamed"}</p>
+                <p className="text-xs text-muted-foreground">{rider.email}</p>
+                {rider.phone && <p className="text-xs text-muted-foreground">{rider.phone}</p>}
+              </TableCell>
+              <TableCell className="text-sm">
+                <p className="capitalize">{rider.vehicle_type}</p>
+                <p className="text-muted-foreground">{rider.vehicle_plate_number}</p>
+                {rider.license_number && <p className="text-muted-foreground">Licence: {rider.license_number}</p>}
+              </TableCell>
+              <TableCell className="space-y-1">
+                {rider.documents.map((document) => (
+                  <button
+                    key={document.document_type}
+                    type="button"
+                    className="flex items-center gap-1 text-sm text-primary hover:underline"
+                    onClick={() => handleViewDocument(document)}
+                  >
+                    <FileText className="h-3 w-3" />
+                    {documentLabel(document.document_type)}
+                  </button>
+                ))}
+              </TableCell>
+              <TableCell>
+                {rider.verification_submitted_at
+                  ? new Date(rider.verification_submitted_at).toLocaleDateString()
+                  : "—"}
+              </TableCell>
+              <TableCell className="text-right space-x-2 whitespace-nowrap">
+                <Button size="sm" disabled={reviewingId === rider.user_id} onClick={() => review(rider, true)}>
+                  Verify
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={reviewingId === rider.user_id}
+                  onClick={() => setRejecting(rider)}
+                >
+                  Reject
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setRejectionNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject documents</DialogTitle>
+            <DialogDescription>
+              The rider sees this note and can upload new documents before submitting again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="verification-note">Reason</Label>
+            <Textarea
+              id="verification-note"
+              value={rejectionNote}
+              onChange={(e) => setRejectionNote(e.target.value)}
+              placeholder="The licence photo is blurry and the expiry date can't be read"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              disabled={!rejectionNote.trim() || reviewingId === rejecting?.user_id}
+              onClick={() => rejecting && review(rejecting, false, rejectionNote)}
+            >
+              Reject Documents
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RiderVerificationsTable;
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { orderStatusLabels } from "@/lib/orders";
+import type { Database } from "@/integrations/supabase/types";
+
+type StageDuration = Database["public"]["Functions"]["admin_get_order_stage_durations"]["Returns"][number];
+
+const periods = [
+  { days: "7", label: "Last 7 days" },
+  { days: "30", label: "Last 30 days" },
+  { days: "90", label: "Last 90 days" },
+];
+
+// Time orders spend between statuses, for checking delivery SLAs
+const StageDurationsTable = () => {
+  const [days, setDays] = useState("30");
+  const [stages, setStages] = useState<StageDuration[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadStages = useCallback(async () => {
+    try {
+      setLoading(true);
+      const since = new Date(Date.now() - Number(days) * 24 * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase.rpc("admin_get_order_stage_durations", { _since: since });
+      if (error) throw error;
+      setStages(data || []);
+    } catch (error) {
+      toast.error("Failed to load delivery times");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadStages();
+  }, [loadStages]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((period) => (
+              <SelectItem key={period.days} value={period.days}>
+                {period.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <p className="py-8 text-center text-muted-foreground">Loading...</p>
+      ) : stages.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground">No status changes recorded in this period</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Stage</TableHead>
+              <TableHead className="text-right">Orders</TableHead>
+              <TableHead className="text-right">Average</TableHead>
+              <TableHead className="text-right">Median</TableHead>
+              <TableHead className="text-right">90th percentile</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stages.map((stage) => (
+              <TableRow key={`${stage.stage}-${stage.next_status}`}>
+                <TableCell>
+                  {orderStatusLabels[stage.stage]} → {orderStatusLabels[stage.next_status]}
+                </TableCell>
+                <TableCell className="text-right">{stage.orders}</TableCell>
+                <TableCell className="text-right">{stage.average_minutes} min</TableCell>
+                <TableCell className="text-right">{stage.median_minutes} min</TableCell>
+                <TableCell className="text-right">{stage.p90_minutes} min</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default StageDurationsTable;
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { displayName, type AdminUser } from "@/lib/admin";
+
+interface UsersTableProps {
+  users: AdminUser[];
+  currentUserId: string | null;
+  onChanged: () => void;
+}
+
+const UsersTable = ({ users, currentUserId, onChanged }: UsersTableProps) => {
+  const [filter, setFilter] = useState("");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [suspending, setSuspending] = useState<AdminUser | null>(null);
+  const [reason, setReason] = useState("");
+
+  const setSuspension = async (user: AdminUser, suspended: boolean, suspensionReason?: string) => {
+    try {
+      setUpdatingId(user.user_id);
+      const { error } = await supabase.rpc("admin_set_suspension", {
+        _user_id: user.user_id,
+        _suspended: suspended,
+        _reason: suspensionReason,
+      });
+      if (error) throw error;
+
+      toast.success(`${displayName(user)} ${suspended ? "suspended" : "reinstated"}`);
+      setSuspending(null);
+      setReason("");
+      onChanged();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update account");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visibleUsers = query
+    ? users.filter((user) =>
+        [user.full_name, user.email, user.phone].some((value) => value?.toLowerCase().includes(query))
+      )
+    : users;
+
+  return (
+    <>
+      <Input
+        className="mb-4 max-w-sm"
+        placeholder="Search by name, email or phone"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+      />
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Account</TableHead>
+            <TableHead>Roles</TableHead>
+            <TableHead>Joined</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleUsers.map((user) => (
+            <TableRow key={user.user_id}>
+              <TableCell>
+                <p className="font-medium">{user.full_name || "Unnamed"}</p>
+                <p className="text-xs text-muted-foreground">{user.email}</p>
+                {user.phone && <p className="text-xs text-muted-foreground">{user.phone}</p>}
+              </TableCell>
+              <TableCell className="space-x-1">
+                {user.roles.map((role) => (
+                  <Badge key={role} variant="outline" className="capitalize">
+                    {role}
+                  </Badge>
+                ))}
+              </TableCell>
+              <TableCell>{new Date(user.created_at).toLocaleDateString()}</TableCell>
+              <TableCell>
+                {user.suspended_at ? (
+                  <div>
+                    <Badge variant="destructive">Suspended</Badge>
+                    <p className="text-xs text-muted-foreground mt-1">{user.suspension_reason}</p>
+                  </div>
+                ) : (
+                  <Badge variant="secondary">Active</Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {user.user_id !== currentUserId &&
+                  (user.suspended_at ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={updatingId === user.user_id}
+                      onClick={() => setSuspension(user, false)}
+                    >
+                      Reinstate
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-destructive"
+                      disabled={updatingId === user.user_id}
+                      onClick={() => setSuspending(user)}
+                    >
+                      Suspend
+                    </Button>
+                  ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog
+        open={!!suspending}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSuspending(null);
+            setReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Suspend {displayName(suspending ?? undefined)}</DialogTitle>
+            <DialogDescription>
+              Suspended accounts can still sign in but lose access to their dashboard, orders and deliveries
+              until reinstated.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="suspension-reason">Reason</Label>
+            <Textarea id="suspension-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || updatingId === suspending?.user_id}
+              onClick={() => suspending && setSuspension(suspending, true, reason)}
+            >
+              Suspend Account
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default UsersTable;
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { useCooldown } from "@/hooks/use-cooldown";
+import { RESEND_COOLDOWN_SECONDS } from "@/lib/auth";
+
+interface CheckInboxProps {
+  email: string;
+  // What the link in the email does, e.g. "confirm your account"
+  purpose: string;
+  onResend: () => Promise<void>;
+  onBack: () => void;
+}
+
+// Shown after an email with a link has been sent; the first one went out just now
+export const CheckInbox = ({ email, purpose, onResend, onBack }: CheckInboxProps) => {
+  const [cooldown, setCooldown] = useCooldown(RESEND_COOLDOWN_SECONDS);
+  const [sending, setSending] = useState(false);
+
+  const handleResend = async () => {
+    try {
+      setSending(true);
+      await onResend();
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      toast.success("Email sent again");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to resend email");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-center">
+      <Mail className="h-12 w-12 mx-auto text-primary" />
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold">Check your inbox</h2>
+        <p className="text-sm text-muted-foreground">
+          We sent a link to <span className="font-medium text-foreground">{email}</span> to {purpose}. It may take a
+          minute to arrive; check your spam folder too.
+        </p>
+      </div>
+      <Button variant="outline" className="w-full" disabled={sending || cooldown > 0} onClick={handleResend}>
+        {cooldown > 0 ? `Resend in ${cooldown}s` : sending ? "Sending..." : "Resend Email"}
+      </Button>
+      <button type="button" className="text-sm text-muted-foreground hover:text-foreground" onClick={onBack}>
+        Use a different email
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { toast } from "sonner";
+import { useCooldown } from "@/hooks/use-cooldown";
+import { formatNigerianPhone, normalizeNigerianPhone } from "@/lib/phone";
+import { RESEND_COOLDOWN_SECONDS } from "@/lib/auth";
+
+const OTP_LENGTH = 6;
+
+interface PhoneOtpFormProps {
+  // Sign-up creates a customer account for a new number; sign-in only accepts existing ones
+  mode: "signin" | "signup";
+}
+
+export const PhoneOtpForm = ({ mode }: PhoneOtpFormProps) => {
+  const [fullName, setFullName] = useState("");
+  const [phoneInput, setPhoneInput] = useState("");
+  const [phone, setPhone] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [cooldown, setCooldown] = useCooldown();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  const sendCode = async (e164: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      phone: e164,
+      options: {
+        shouldCreateUser: mode === "signup",
+        data: mode === "signup" ? { full_name: fullName.trim(), phone: e164 } : undefined,
+      },
+    });
+
+    if (error) {
+      if (mode === "signin" && /signups not allowed/i.test(error.message)) {
+        throw new Error("No account uses this number yet. Sign up with it instead.");
+      }
+      throw error;
+    }
+
+    setCooldown(RESEND_COOLDOWN_SECONDS);
+  };
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const fieldErrors: Record<string, string> = {};
+    const e164 = normalizeNigerianPhone(phoneInput);
+    if (!e164) fieldErrors.phone = "Enter a Nigerian mobile number, e.g. 0803 123 4567";
+    if (mode === "signup" && !fullName.trim()) fieldErrors.fullName = "Name is required";
+    if (Object.keys(fieldErrors).length > 0 || !e164) {
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await sendCode(e164);
+      setPhone(e164);
+      setCode("");
+      toast.success(`Code sent to ${formatNigerianPhone(e164)}`);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to send code");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!phone || cooldown > 0) return;
+    try {
+      setLoading(true);
+      await sendCode(phone);
+      toast.success("A new code is on its way");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to resend code");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!phone || code.length !== OTP_LENGTH) return;
+
+    try {
+      setLoading(true);
+      const { error } = await supabase.auth.verifyOtp({ phone, token: code, type: "sms" });
+      if (error) throw error;
+
+      // The auth listener takes it from here and redirects
+      toast.success(mode === "signup" ? "Account created successfully!" : "Signed in successfully!");
+    } catch (error) {
+      setCode("");
+      toast.error((error as Error).message || "That code didn't work");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (phone) {
+    return (
+      <form onSubmit={handleVerify} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="otp-code">Enter the {OTP_LENGTH}-digit code sent to {formatNigerianPhone(phone)}</Label>
+          <InputOTP id="otp-code" maxLength={OTP_LENGTH} value={code} onChange={setCode} autoFocus>
+            <InputOTPGroup>
+              {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+
+        <Button type="submit" className="w-full" disabled={loading || code.length !== OTP_LENGTH}>
+          {loading ? "Verifying..." : "Verify"}
+        </Button>
+
+        <div className="flex justify-between text-sm">
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-foreground"
+            onClick={() => setPhone(null)}
+          >
+            Use a different number
+          </button>
+          <button
+            type="button"
+            className="text-primary disabled:text-muted-foreground"
+            disabled={loading || cooldown > 0}
+            onClick={handleResend}
+          >
+            {cooldown > 0 ? `Resend code in ${cooldown}s` : "Resend code"}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSendCode} className="space-y-4">
+      {mode === "signup" && (
+        <div className="space-y-2">
+          <Label htmlFor="otp-full-name">Full Name</Label>
+          <Input id="otp-full-name" value={fullName} onChange={(e) => setFullName(e.target.value)} />
+          {errors.fullName && <p className="text-sm text-destructive">{errors.fullName}</p>}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="otp-phone">Phone Number</Label>
+        <Input
+          id="otp-phone"
+          type="tel"
+          placeholder="0803 123 4567"
+          value={phoneInput}
+          onChange={(e) => setPhoneInput(e.target.value)}
+        />
+        {errors.phone && <p className="text-sm text-destructive">{errors.phone}</p>}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={loading || cooldown > 0}>
+        {loading ? "Sending..." : cooldown > 0 ? `Send code in ${cooldown}s` : "Send Code"}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { roleLabels, type AppRole } from "@/lib/roles";
+
+interface RequireRoleProps {
+  // Any signed-in user is let through when no role is given
+  role?: AppRole;
+  children: React.ReactNode;
+}
+
+export const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { session, roles, activeRole, setActiveRole, applications, loading } = useAuth();
+  const location = useLocation();
+
+  const lacksRole = !loading && !!session && !!role && !roles.includes(role);
+  const hasApplication = !!role && applications.some((application) => application.role === role);
+
+  useEffect(() => {
+    if (lacksRole && !hasApplication && role) {
+      toast.error(`Access denied. ${roleLabels[role]} account required.`);
+    }
+  }, [lacksRole, hasApplication, role]);
+
+  // Opening a role's pages makes it the one the user comes back to
+  useEffect(() => {
+    if (role && roles.includes(role) && activeRole !== role) {
+      setActiveRole(role);
+    }
+  }, [role, roles, activeRole, setActiveRole]);
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  if (!session) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  if (lacksRole) {
+    // Applicants wait on their application's status page until it's approved
+    return <Navigate to={hasApplication ? "/application" : "/"} replace />;
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { CircleMarker, MapContainer, Polyline, TileLayer, Tooltip, useMap } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { supabase } from "@/integrations/supabase/client";
+import { Navigation } from "lucide-react";
+import { Coordinates, estimateMinutes } from "@/lib/geo";
+
+interface LiveTrackingMapProps {
+  orderId: string;
+  status: "accepted" | "picked_up" | "in_transit";
+  pickup: Coordinates | null;
+  dropoff: Coordinates | null;
+}
+
+interface TrailPoint extends Coordinates {
+  recorded_at: string;
+}
+
+// Leaflet draws SVG attributes, which can't read the theme's CSS variables
+const RIDER_COLOR = "#ff8400";
+const PICKUP_COLOR = "#64748b";
+const DROPOFF_COLOR = "#16a34a";
+
+const toLatLng = (point: Coordinates): [number, number] => [point.latitude, point.longitude];
+
+// Keeps the rider in view as they move without fighting the customer's own panning
+const FollowRider = ({ position }: { position: Coordinates }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const latLng = toLatLng(position);
+    if (!map.getBounds().pad(-0.1).contains(latLng)) {
+      map.panTo(latLng);
+    }
+  }, [map, position]);
+
+  return null;
+};
+
+const LiveTrackingMap = ({ orderId, status, pickup, dropoff }: LiveTrackingMapProps) => {
+  const [trail, setTrail] = useState<TrailPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadTrail = async () => {
+      const { data, error } = await supabase
+        .from("rider_locations")
+        .select("latitude, longitude, recorded_at")
+        .eq("order_id", orderId)
+        .order("recorded_at", { ascending: true });
+
+      if (error) console.error(error);
+      setTrail(data || []);
+      setLoading(false);
+    };
+
+    loadTrail();
+
+    const channel = supabase
+      .channel(`rider-locations-${orderId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "rider_locations",
+          filter: `order_id=eq.${orderId}`,
+        },
+        (payload) => {
+          const { latitude, longitude, recorded_at } = payload.new as TrailPoint;
+          setTrail((current) => [...current, { latitude, longitude, recorded_at }]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId]);
+
+  if (loading) {
+    return <div className="text-sm text-muted-foreground">Loading map...</div>;
+  }
+
+  const rider = trail.length > 0 ? trail[trail.length - 1] : null;
+
+  if (!rider) {
+    return (
+      <p className="text-sm text-muted-foreground bg-muted/50 p-2 rounded">
+        The map will appear once your rider starts sharing their location
+      </p>
+    );
+  }
+
+  // Before pickup the rider still has to collect from the vendor
+  const route = status === "accepted" && pickup ? [rider, pickup, dropoff] : [rider, dropoff];
+  const etaMinutes = dropoff ? estimateMinutes(route.filter((point): point is Coordinates => point !== null)) : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-1 font-medium">
+          <Navigation className="h-4 w-4 text-primary" />
+          {etaMinutes !== null ? `Arriving in about ${etaMinutes} min` : "Your rider is on the way"}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          Updated {new Date(rider.recorded_at).toLocaleTimeString()}
+        </span>
+      </div>
+      <div className="h-56 overflow-hidden rounded-lg border">
+        <MapContainer center={toLatLng(rider)} zoom={14} scrollWheelZoom={false} className="h-full w-full">
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <Polyline positions={trail.map(toLatLng)} pathOptions={{ color: RIDER_COLOR, weight: 3, opacity: 0.6 }} />
+          {pickup && status === "accepted" && (
+            <CircleMarker center={toLatLng(pickup)} radius={7} pathOptions={{ color: PICKUP_COLOR, fillOpacity: 0.9 }}>
+              <Tooltip>Pickup</Tooltip>
+            </CircleMarker>
+          )}
+          {dropoff && (
+            <CircleMarker center={toLatLng(dropoff)} radius={7} pathOptions={{ color: DROPOFF_COLOR, fillOpacity: 0.9 }}>
+              <Tooltip>Your address</Tooltip>
+            </CircleMarker>
+          )}
+          <CircleMarker center={toLatLng(rider)} radius={9} pathOptions={{ color: RIDER_COLOR, fillOpacity: 1 }}>
+            <Tooltip permanent direction="top">Rider</Tooltip>
+          </CircleMarker>
+          <FollowRider position={rider} />
+        </MapContainer>
+      </div>
+    </div>
+  );
+};
+
+export default LiveTrackingMap;
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { OrderStatus, OrderStatusEvent, formatDuration, orderStatusLabels } from "@/lib/orders";
+
+interface OrderTimelineProps {
+  orderId: string;
+  // Reloads the history whenever the order moves on
+  status: OrderStatus;
+}
+
+const OrderTimeline = ({ orderId, status }: OrderTimelineProps) => {
+  const [events, setEvents] = useState<OrderStatusEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      const { data, error } = await supabase
+        .from("order_status_events")
+        .select("*")
+        .eq("order_id", orderId)
+        .order("created_at", { ascending: true });
+
+      if (error) console.error(error);
+      setEvents(data || []);
+      setLoading(false);
+    };
+
+    loadEvents();
+  }, [orderId, status]);
+
+  if (loading) {
+    return <div className="text-sm text-muted-foreground">Loading...</div>;
+  }
+
+  if (events.length === 0) return null;
+
+  return (
+    <ol className="space-y-3 border-l pl-4">
+      {events.map((event, index) => {
+        const previous = index > 0 ? events[index - 1] : null;
+        const isLatest = index === events.length - 1;
+
+        return (
+          <li key={event.id} className="relative">
+            <span
+              className={cn(
+                "absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background",
+                isLatest ? (event.to_status === "cancelled" ? "bg-destructive" : "bg-primary") : "bg-muted-foreground"
+              )}
+            />
+            <div className="flex justify-between gap-2 text-sm">
+              <span className={cn(isLatest && "font-medium")}>{orderStatusLabels[event.to_status]}</span>
+              <span className="text-xs text-muted-foreground">
+                {new Date(event.created_at).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+              </span>
+            </div>
+            {previous && event.from_status && (
+              <p className="text-xs text-muted-foreground">
+                after {formatDuration(previous.created_at, event.created_at)}
+              </p>
+            )}
+            {event.note && <p className="text-xs text-muted-foreground">{event.note}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
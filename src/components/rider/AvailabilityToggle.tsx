@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { Radio } from "lucide-react";
+import { locationErrorMessage } from "@/lib/geo";
+
+// Dispatch ignores locations older than ten minutes, so report well within that
+const LOCATION_REPORT_INTERVAL_MS = 30 * 1000;
+
+interface AvailabilityToggleProps {
+  userId: string;
+}
+
+const AvailabilityToggle = ({ userId }: AvailabilityToggleProps) => {
+  const [available, setAvailable] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const lastReportAt = useRef(0);
+
+  useEffect(() => {
+    const loadAvailability = async () => {
+      const { data, error } = await supabase
+        .from("rider_availability")
+        .select("is_available")
+        .eq("rider_id", userId)
+        .maybeSingle();
+
+      if (error) console.error(error);
+      setAvailable(data?.is_available ?? false);
+      setLoading(false);
+    };
+
+    loadAvailability();
+  }, [userId]);
+
+  // While on duty, keep the dispatcher's idea of where this rider is fresh
+  useEffect(() => {
+    if (!available) return;
+
+    if (!navigator.geolocation) {
+      toast.error("Location isn't available in this browser, so you won't get nearby offers");
+      return;
+    }
+
+    lastReportAt.current = 0;
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        const now = Date.now();
+        if (now - lastReportAt.current < LOCATION_REPORT_INTERVAL_MS) return;
+        lastReportAt.current = now;
+
+        const { error } = await supabase.rpc("update_rider_availability", {
+          _is_available: true,
+          _latitude: position.coords.latitude,
+          _longitude: position.coords.longitude,
+        });
+        if (error) console.error(error);
+      },
+      (error) => toast.error(locationErrorMessage(error)),
+      { enableHighAccuracy: true, maximumAge: LOCATION_REPORT_INTERVAL_MS }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [available]);
+
+  const handleToggle = async (checked: boolean) => {
+    try {
+      setUpdating(true);
+      const { error } = await supabase.rpc("update_rider_availability", { _is_available: checked });
+      if (error) throw error;
+
+      setAvailable(checked);
+      toast.success(checked ? "You're on duty. Nearby orders will be offered to you." : "You're off duty");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update availability");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="flex items-center gap-4 py-4">
+        <Radio className={available ? "h-8 w-8 text-primary" : "h-8 w-8 text-muted-foreground"} />
+        <div className="flex-1">
+          <Label htmlFor="rider-availability" className="font-semibold">
+            {available ? "On duty" : "Off duty"}
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            {available
+              ? "Sharing your location so we can offer you orders close by"
+              : "Go on duty to receive delivery offers near you"}
+          </p>
+        </div>
+        <Switch
+          id="rider-availability"
+          checked={available}
+          disabled={loading || updating}
+          onCheckedChange={handleToggle}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AvailabilityToggle;
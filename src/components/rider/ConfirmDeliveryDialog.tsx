@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Camera, CheckCircle2 } from "lucide-react";
+import { DELIVERY_CODE_LENGTH, DELIVERY_PROOFS_BUCKET } from "@/lib/orders";
+
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+interface ConfirmDeliveryDialogProps {
+  riderId: string;
+  orderId: string;
+  onDelivered: () => void;
+}
+
+const ConfirmDeliveryDialog = ({ riderId, orderId, onDelivered }: ConfirmDeliveryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setCode("");
+      setPhoto(null);
+    }
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Take or choose a photo");
+      return;
+    }
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast.error("Photo size must be less than 5MB");
+      return;
+    }
+
+    setPhoto(file);
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== DELIVERY_CODE_LENGTH) return;
+
+    let photoPath: string | null = null;
+    try {
+      setSubmitting(true);
+
+      if (photo) {
+        const fileExt = photo.name.split(".").pop();
+        photoPath = `${riderId}/${orderId}-${Date.now()}.${fileExt}`;
+        const { error: uploadError } = await supabase.storage.from(DELIVERY_PROOFS_BUCKET).upload(photoPath, photo);
+        if (uploadError) throw uploadError;
+      }
+
+      const { data: confirmed, error } = await supabase.rpc("confirm_delivery", {
+        _order_id: orderId,
+        _code: code,
+        _photo_path: photoPath ?? undefined,
+      });
+      if (error) throw error;
+
+      if (!confirmed) {
+        if (photoPath) await supabase.storage.from(DELIVERY_PROOFS_BUCKET).remove([photoPath]);
+        setCode("");
+        toast.error("That code doesn't match. Ask the customer to check it in their orders.");
+        return;
+      }
+
+      toast.success("Order delivered");
+      handleOpenChange(false);
+      onDelivered();
+    } catch (error) {
+      if (photoPath) await supabase.storage.from(DELIVERY_PROOFS_BUCKET).remove([photoPath]);
+      toast.error((error as Error).message || "Failed to confirm delivery");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button className="w-full">Mark as Delivered</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Confirm delivery</DialogTitle>
+            <DialogDescription>
+              Ask the customer for the {DELIVERY_CODE_LENGTH}-digit delivery code shown with their order.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="delivery-code">Delivery code</Label>
+            <InputOTP
+              id="delivery-code"
+              maxLength={DELIVERY_CODE_LENGTH}
+              value={code}
+              onChange={setCode}
+              inputMode="numeric"
+              pattern="^[0-9]*$"
+              autoFocus
+            >
+              <InputOTPGroup>
+                {Array.from({ length: DELIVERY_CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Photo of the handover <span className="text-muted-foreground font-normal">(optional)</span>
+            </Label>
+            <label
+              htmlFor="delivery-photo"
+              className="cursor-pointer inline-flex items-center gap-2 rounded-md border px-3 py-2 text-sm hover:bg-muted"
+            >
+              {photo ? <CheckCircle2 className="h-4 w-4 text-primary" /> : <Camera className="h-4 w-4" />}
+              {photo ? photo.name : "Take photo"}
+            </label>
+            <input
+              id="delivery-photo"
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              disabled={submitting}
+              onChange={handlePhotoChange}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={submitting || code.length !== DELIVERY_CODE_LENGTH}>
+              {submitting ? "Confirming..." : "Confirm Delivery"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConfirmDeliveryDialog;
@@ -0,0 +1,21 @@
+import { Timer } from "lucide-react";
+import { useCooldown } from "@/hooks/use-cooldown";
+
+interface OfferCountdownProps {
+  expiresAt: string;
+}
+
+const secondsUntil = (timestamp: string) => Math.max(0, Math.ceil((new Date(timestamp).getTime() - Date.now()) / 1000));
+
+const OfferCountdown = ({ expiresAt }: OfferCountdownProps) => {
+  const [remaining] = useCooldown(secondsUntil(expiresAt));
+
+  return (
+    <span className={remaining <= 10 ? "flex items-center gap-1 text-destructive" : "flex items-center gap-1"}>
+      <Timer className="h-3 w-3" />
+      {remaining > 0 ? `${remaining}s to accept` : "Offer expired"}
+    </span>
+  );
+};
+
+export default OfferCountdown;
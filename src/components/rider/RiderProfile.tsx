@@ -0,0 +1,386 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { CheckCircle2, Eye, FileText, ShieldAlert, Upload } from "lucide-react";
+import { z } from "zod";
+import {
+  RIDER_DOCUMENTS_BUCKET,
+  openRiderDocument,
+  riderDocumentTypes,
+  vehicleTypes,
+  verificationLabels,
+  type RiderDocumentType,
+  type RiderVerificationStatus,
+} from "@/lib/riders";
+
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+const vehicleSchema = z.object({
+  vehicleType: z.string().min(1, { message: "Vehicle type is required" }),
+  vehiclePlateNumber: z.string().trim().min(1, { message: "Plate number is required" }).max(20),
+  licenseNumber: z.string().trim().max(50),
+  emergencyContact: z.string().trim().max(20),
+});
+
+interface RiderDetails {
+  vehicle_type: string;
+  vehicle_plate_number: string;
+  license_number: string | null;
+  emergency_contact: string | null;
+  verification_status: RiderVerificationStatus;
+  verification_note: string | null;
+}
+
+interface RiderDocument {
+  document_type: RiderDocumentType;
+  storage_path: string;
+  file_name: string | null;
+  uploaded_at: string;
+}
+
+const RIDER_COLUMNS =
+  "vehicle_type, vehicle_plate_number, license_number, emergency_contact, verification_status, verification_note";
+
+const statusDescriptions: Record<RiderVerificationStatus, string> = {
+  unverified: "Upload your driver's licence and vehicle registration, then submit them for review.",
+  pending: "We're checking your documents. You can accept orders as soon as they're approved.",
+  verified: "You can accept orders. Changing your vehicle or documents sends them back for review.",
+  rejected: "Update the documents below and submit them again.",
+};
+
+interface RiderProfileProps {
+  userId: string;
+  onStatusChange: (status: RiderVerificationStatus) => void;
+}
+
+const RiderProfile = ({ userId, onStatusChange }: RiderProfileProps) => {
+  const [rider, setRider] = useState<RiderDetails | null>(null);
+  const [documents, setDocuments] = useState<RiderDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState({
+    vehicleType: "",
+    vehiclePlateNumber: "",
+    licenseNumber: "",
+    emergencyContact: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState<RiderDocumentType | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const applyRider = useCallback(
+    (data: RiderDetails) => {
+      setRider(data);
+      setFormData({
+        vehicleType: data.vehicle_type,
+        vehiclePlateNumber: data.vehicle_plate_number,
+        licenseNumber: data.license_number || "",
+        emergencyContact: data.emergency_contact || "",
+      });
+      onStatusChange(data.verification_status);
+    },
+    [onStatusChange]
+  );
+
+  const loadProfile = useCallback(async () => {
+    try {
+      const [riderResult, documentsResult] = await Promise.all([
+        supabase.from("rider_profiles").select(RIDER_COLUMNS).eq("user_id", userId).maybeSingle(),
+        supabase
+          .from("rider_documents")
+          .select("document_type, storage_path, file_name, uploaded_at")
+          .eq("rider_id", userId),
+      ]);
+
+      if (riderResult.error) throw riderResult.error;
+      if (documentsResult.error) throw documentsResult.error;
+
+      if (riderResult.data) applyRider(riderResult.data);
+      setDocuments(documentsResult.data || []);
+    } catch (error) {
+      toast.error("Failed to load rider profile");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, applyRider]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = vehicleSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) fieldErrors[err.path[0].toString()] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { data, error } = await supabase
+        .from("rider_profiles")
+        .update({
+          vehicle_type: result.data.vehicleType,
+          vehicle_plate_number: result.data.vehiclePlateNumber,
+          license_number: result.data.licenseNumber || null,
+          emergency_contact: result.data.emergencyContact || null,
+        })
+        .eq("user_id", userId)
+        .select(RIDER_COLUMNS)
+        .single();
+      if (error) throw error;
+
+      toast.success(
+        rider?.verification_status === "verified" && data.verification_status === "pending"
+          ? "Vehicle details saved and sent for review"
+          : "Vehicle details saved"
+      );
+      applyRider(data);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save vehicle details");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDocumentChange = async (type: RiderDocumentType, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
+      toast.error("Upload a photo or a PDF");
+      return;
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      toast.error("File size must be less than 5MB");
+      return;
+    }
+
+    try {
+      setUploading(type);
+      const fileExt = file.name.split(".").pop();
+      const filePath = `${userId}/${type}-${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage.from(RIDER_DOCUMENTS_BUCKET).upload(filePath, file);
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase
+        .from("rider_documents")
+        .upsert(
+          {
+            rider_id: userId,
+            document_type: type,
+            storage_path: filePath,
+            file_name: file.name,
+            uploaded_at: new Date().toISOString(),
+          },
+          { onConflict: "rider_id,document_type" }
+        );
+      if (error) throw error;
+
+      const previous = documents.find((document) => document.document_type === type);
+      if (previous) {
+        await supabase.storage.from(RIDER_DOCUMENTS_BUCKET).remove([previous.storage_path]);
+      }
+
+      toast.success("Document uploaded");
+      loadProfile();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to upload document");
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleViewDocument = async (document: RiderDocument) => {
+    try {
+      await openRiderDocument(document.storage_path);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to open document");
+    }
+  };
+
+  const handleSubmitForReview = async () => {
+    try {
+      setSubmitting(true);
+      const { error } = await supabase.rpc("submit_rider_verification");
+      if (error) throw error;
+
+      toast.success("Documents submitted for review");
+      loadProfile();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to submit documents");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading...</div>;
+  }
+
+  if (!rider) {
+    return <div className="text-center py-12 text-muted-foreground">We couldn't find your rider profile.</div>;
+  }
+
+  const status = rider.verification_status;
+  const canSubmit = status === "unverified" || status === "rejected";
+  const missingRequired = riderDocumentTypes.some(
+    (option) => option.required && !documents.some((document) => document.document_type === option.type)
+  );
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <Alert variant={status === "rejected" ? "destructive" : "default"}>
+        {status === "verified" ? <CheckCircle2 className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+        <AlertTitle className="flex items-center gap-2">
+          Verification
+          <Badge variant={status === "verified" ? "default" : "secondary"}>{verificationLabels[status]}</Badge>
+        </AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p>{statusDescriptions[status]}</p>
+          {status === "rejected" && rider.verification_note && <p className="font-medium">{rider.verification_note}</p>}
+        </AlertDescription>
+      </Alert>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Documents</CardTitle>
+          <CardDescription>Photos or PDFs up to 5MB. Only you and our team can see them.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {riderDocumentTypes.map((option) => {
+            const document = documents.find((existing) => existing.document_type === option.type);
+            const inputId = `document-${option.type}`;
+
+            return (
+              <div key={option.type} className="flex items-center gap-3 rounded-lg border p-4">
+                <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">
+                    {option.label}
+                    {!option.required && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {document
+                      ? `${document.file_name || "Uploaded"} · ${new Date(document.uploaded_at).toLocaleDateString()}`
+                      : "Not uploaded"}
+                  </p>
+                </div>
+                {document && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleViewDocument(document)}>
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                )}
+                <Label
+                  htmlFor={inputId}
+                  className="cursor-pointer inline-flex items-center gap-2 rounded-md border px-3 py-2 text-sm hover:bg-muted"
+                >
+                  <Upload className="h-4 w-4" />
+                  {uploading === option.type ? "Uploading..." : document ? "Replace" : "Upload"}
+                </Label>
+                <input
+                  id={inputId}
+                  type="file"
+                  accept="image/*,application/pdf"
+                  className="hidden"
+                  disabled={uploading !== null}
+                  onChange={(e) => handleDocumentChange(option.type, e)}
+                />
+              </div>
+            );
+          })}
+
+          {canSubmit && (
+            <Button className="w-full" disabled={missingRequired || submitting} onClick={handleSubmitForReview}>
+              {submitting ? "Submitting..." : "Submit for Verification"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vehicle Details</CardTitle>
+          <CardDescription>Keep these matching the documents you upload</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vehicle-type">Vehicle Type</Label>
+                <Select
+                  value={formData.vehicleType}
+                  onValueChange={(value) => setFormData({ ...formData, vehicleType: value })}
+                >
+                  <SelectTrigger id="vehicle-type">
+                    <SelectValue placeholder="Select vehicle type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vehicleTypes.map((vehicle) => (
+                      <SelectItem key={vehicle.value} value={vehicle.value}>
+                        {vehicle.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {errors.vehicleType && <p className="text-sm text-destructive">{errors.vehicleType}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vehicle-plate">Plate Number</Label>
+                <Input
+                  id="vehicle-plate"
+                  value={formData.vehiclePlateNumber}
+                  onChange={(e) => setFormData({ ...formData, vehiclePlateNumber: e.target.value })}
+                />
+                {errors.vehiclePlateNumber && <p className="text-sm text-destructive">{errors.vehiclePlateNumber}</p>}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="license-number">Licence Number</Label>
+                <Input
+                  id="license-number"
+                  value={formData.licenseNumber}
+                  onChange={(e) => setFormData({ ...formData, licenseNumber: e.target.value })}
+                />
+                {errors.licenseNumber && <p className="text-sm text-destructive">{errors.licenseNumber}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="emergency-contact">Emergency Contact</Label>
+                <Input
+                  id="emergency-contact"
+                  type="tel"
+                  value={formData.emergencyContact}
+                  onChange={(e) => setFormData({ ...formData, emergencyContact: e.target.value })}
+                />
+                {errors.emergencyContact && <p className="text-sm text-destructive">{errors.emergencyContact}</p>}
+              </div>
+            </div>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save Changes"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RiderProfile;
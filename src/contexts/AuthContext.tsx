@@ -0,0 +1,138 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { getHomePath, rolePriority, type AppRole, type RoleApplicationSummary } from "@/lib/roles";
+
+const ACTIVE_ROLE_KEY = "jiffy-active-role";
+
+interface Access {
+  roles: AppRole[];
+  applications: RoleApplicationSummary[];
+}
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  roles: AppRole[];
+  // The role the user is currently acting as; remembered across visits
+  activeRole: AppRole | null;
+  setActiveRole: (role: AppRole) => void;
+  applications: RoleApplicationSummary[];
+  // True until the initial session and its role have been resolved
+  loading: boolean;
+  homePath: string;
+  refresh: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+const NO_ACCESS: Access = { roles: [], applications: [] };
+
+const loadAccess = async (userId: string): Promise<Access> => {
+  const [rolesResult, applicationsResult] = await Promise.all([
+    supabase.from("user_roles").select("role").eq("user_id", userId),
+    supabase.from("role_applications").select("role, status").eq("user_id", userId),
+  ]);
+
+  if (rolesResult.error) console.error(rolesResult.error);
+  if (applicationsResult.error) console.error(applicationsResult.error);
+
+  return {
+    roles: (rolesResult.data || []).map((row) => row.role),
+    applications: applicationsResult.data || [],
+  };
+};
+
+export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [access, setAccess] = useState<Access>(NO_ACCESS);
+  const [loading, setLoading] = useState(true);
+  const [preferredRole, setPreferredRole] = useState(() => localStorage.getItem(ACTIVE_ROLE_KEY) as AppRole | null);
+  // The role lookup for the current user, shared by the auth events that fire for the same sign-in
+  const accessRequest = useRef<{ userId: string | null; promise: Promise<Access> }>({
+    userId: null,
+    promise: Promise.resolve(NO_ACCESS),
+  });
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      const nextUserId = nextSession?.user.id ?? null;
+
+      // Defer Supabase calls out of the auth callback to avoid deadlocking the client
+      setTimeout(async () => {
+        if (accessRequest.current.userId !== nextUserId) {
+          accessRequest.current = {
+            userId: nextUserId,
+            promise: nextUserId ? loadAccess(nextUserId) : Promise.resolve(NO_ACCESS),
+          };
+        }
+
+        let request = accessRequest.current;
+        let nextAccess = await request.promise;
+        while (accessRequest.current !== request) {
+          // A later sign-in or sign-out has taken over
+          if (accessRequest.current.userId !== nextUserId) return;
+          // refresh() started a newer lookup for the same user
+          request = accessRequest.current;
+          nextAccess = await request.promise;
+        }
+
+        setSession(nextSession);
+        setAccess(nextAccess);
+        setLoading(false);
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const { userId } = accessRequest.current;
+    if (!userId) return;
+
+    const request = { userId, promise: loadAccess(userId) };
+    accessRequest.current = request;
+    const nextAccess = await request.promise;
+    if (accessRequest.current === request) setAccess(nextAccess);
+  }, []);
+
+  const setActiveRole = useCallback((role: AppRole) => {
+    localStorage.setItem(ACTIVE_ROLE_KEY, role);
+    setPreferredRole(role);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+  }, []);
+
+  const value = useMemo(() => {
+    const activeRole =
+      preferredRole && access.roles.includes(preferredRole)
+        ? preferredRole
+        : rolePriority.find((role) => access.roles.includes(role)) ?? null;
+
+    return {
+      session,
+      user: session?.user ?? null,
+      roles: access.roles,
+      activeRole,
+      setActiveRole,
+      applications: access.applications,
+      loading,
+      homePath: getHomePath(activeRole, access.applications),
+      refresh,
+      signOut,
+    };
+  }, [session, access, preferredRole, loading, setActiveRole, refresh, signOut]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.");
+  }
+  return context;
+};
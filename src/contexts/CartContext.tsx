@@ -0,0 +1,254 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+const GUEST_CART_KEY = "jiffy-guest-cart";
+
+export interface CartProduct {
+  id: string;
+  vendor_id: string;
+  name: string;
+  price: number;
+  image_url: string | null;
+  stock: number;
+}
+
+export interface CartItem {
+  productId: string;
+  quantity: number;
+  product: CartProduct;
+}
+
+type CartLine = {
+  product_id: string;
+  quantity: number;
+};
+
+interface CartContextValue {
+  items: CartItem[];
+  itemCount: number;
+  subtotal: number;
+  loading: boolean;
+  isOpen: boolean;
+  setOpen: (open: boolean) => void;
+  addItem: (productId: string, quantity?: number) => Promise<void>;
+  updateQuantity: (productId: string, quantity: number) => Promise<boolean>;
+  removeItem: (productId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const CartContext = createContext<CartContextValue | undefined>(undefined);
+
+const PRODUCT_COLUMNS = "id, vendor_id, name, price, image_url, stock";
+
+const readGuestCart = (): CartLine[] => {
+  try {
+    const stored = localStorage.getItem(GUEST_CART_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeGuestCart = (lines: CartLine[]) => {
+  if (lines.length === 0) {
+    localStorage.removeItem(GUEST_CART_KEY);
+  } else {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(lines));
+  }
+};
+
+const fetchProduct = async (productId: string) => {
+  const { data, error } = await supabase
+    .from("products")
+    .select(PRODUCT_COLUMNS)
+    .eq("id", productId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error("This product is no longer available");
+  return data as CartProduct;
+};
+
+const loadCartItems = async (userId: string | null): Promise<CartItem[]> => {
+  if (userId) {
+    const { data, error } = await supabase
+      .from("cart_items")
+      .select(`product_id, quantity, products (${PRODUCT_COLUMNS})`)
+      .eq("customer_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data || [])
+      .filter((row) => row.products)
+      .map((row) => ({
+        productId: row.product_id,
+        quantity: row.quantity,
+        product: row.products as CartProduct,
+      }));
+  }
+
+  const lines = readGuestCart();
+  if (lines.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("products")
+    .select(PRODUCT_COLUMNS)
+    .in("id", lines.map((line) => line.product_id));
+
+  if (error) throw error;
+  const products = new Map((data || []).map((product) => [product.id, product as CartProduct]));
+
+  return lines
+    .filter((line) => products.has(line.product_id))
+    .map((line) => ({
+      productId: line.product_id,
+      quantity: line.quantity,
+      product: products.get(line.product_id)!,
+    }));
+};
+
+export const CartProvider = ({ children }: { children: React.ReactNode }) => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isOpen, setOpen] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await loadCartItems(userId));
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      const nextUserId = session?.user.id ?? null;
+
+      // Defer Supabase calls out of the auth callback to avoid deadlocking the client
+      setTimeout(async () => {
+        if (event === "SIGNED_IN" && nextUserId) {
+          const guestLines = readGuestCart();
+          if (guestLines.length > 0) {
+            const { error } = await supabase.rpc("merge_guest_cart", { _items: guestLines });
+            if (error) {
+              console.error(error);
+            } else {
+              writeGuestCart([]);
+            }
+          }
+        }
+        setUserId(nextUserId);
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setQuantity = useCallback(
+    async (productId: string, quantity: number) => {
+      if (userId) {
+        if (quantity <= 0) {
+          const { error } = await supabase
+            .from("cart_items")
+            .delete()
+            .eq("customer_id", userId)
+            .eq("product_id", productId);
+          if (error) throw error;
+        } else {
+          const { error } = await supabase
+            .from("cart_items")
+            .upsert(
+              { customer_id: userId, product_id: productId, quantity },
+              { onConflict: "customer_id,product_id" }
+            );
+          if (error) throw error;
+        }
+      } else {
+        const lines = readGuestCart().filter((line) => line.product_id !== productId);
+        if (quantity > 0) lines.push({ product_id: productId, quantity });
+        writeGuestCart(lines);
+      }
+      await refresh();
+    },
+    [userId, refresh]
+  );
+
+  const updateQuantity = useCallback(
+    async (productId: string, quantity: number) => {
+      try {
+        if (quantity > 0) {
+          const product = await fetchProduct(productId);
+          if (quantity > product.stock) {
+            toast.error(
+              product.stock > 0
+                ? `Only ${product.stock} of ${product.name} left in stock`
+                : `${product.name} is out of stock`
+            );
+            return false;
+          }
+        }
+        await setQuantity(productId, quantity);
+        return true;
+      } catch (error) {
+        toast.error((error as Error).message || "Failed to update cart");
+        return false;
+      }
+    },
+    [setQuantity]
+  );
+
+  const addItem = useCallback(
+    async (productId: string, quantity = 1) => {
+      const existing = items.find((item) => item.productId === productId)?.quantity ?? 0;
+      if (await updateQuantity(productId, existing + quantity)) {
+        setOpen(true);
+      }
+    },
+    [items, updateQuantity]
+  );
+
+  const removeItem = useCallback(
+    async (productId: string) => {
+      try {
+        await setQuantity(productId, 0);
+      } catch (error) {
+        toast.error("Failed to remove item");
+      }
+    },
+    [setQuantity]
+  );
+
+  const value = useMemo<CartContextValue>(
+    () => ({
+      items,
+      itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+      subtotal: items.reduce((sum, item) => sum + item.product.price * item.quantity, 0),
+      loading,
+      isOpen,
+      setOpen,
+      addItem,
+      updateQuantity,
+      removeItem,
+      refresh,
+    }),
+    [items, loading, isOpen, addItem, updateQuantity, removeItem, refresh]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider.");
+  }
+  return context;
+};
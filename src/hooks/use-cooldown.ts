@@ -0,0 +1,14 @@
+import * as React from "react";
+
+// Seconds left before an action (like resending a code) may be repeated
+export function useCooldown(initialSeconds = 0) {
+  const [remaining, setRemaining] = React.useState(initialSeconds);
+
+  React.useEffect(() => {
+    if (remaining <= 0) return;
+    const timer = setTimeout(() => setRemaining(remaining - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [remaining]);
+
+  return [remaining, setRemaining] as const;
+}
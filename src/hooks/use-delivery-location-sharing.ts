@@ -0,0 +1,49 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { locationErrorMessage } from "@/lib/geo";
+
+const LOCATION_SHARE_INTERVAL_MS = 10 * 1000;
+
+// Streams the rider's position onto each order they're carrying. Pass only
+// accepted, picked_up and in_transit orders; sharing stops as soon as the list is empty.
+export function useDeliveryLocationSharing(riderId: string | undefined, orderIds: string[]) {
+  const lastShareAt = React.useRef(0);
+  const orderKey = orderIds.join(",");
+
+  React.useEffect(() => {
+    if (!riderId || !orderKey) return;
+
+    if (!navigator.geolocation) {
+      toast.error("Location isn't available in this browser, so customers can't follow their delivery");
+      return;
+    }
+
+    const activeOrderIds = orderKey.split(",");
+    lastShareAt.current = 0;
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        const now = Date.now();
+        if (now - lastShareAt.current < LOCATION_SHARE_INTERVAL_MS) return;
+        lastShareAt.current = now;
+
+        const { error } = await supabase.from("rider_locations").insert(
+          activeOrderIds.map((orderId) => ({
+            rider_id: riderId,
+            order_id: orderId,
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            heading: position.coords.heading,
+            speed: position.coords.speed,
+            accuracy: position.coords.accuracy,
+          }))
+        );
+        if (error) console.error(error);
+      },
+      (error) => toast.error(locationErrorMessage(error)),
+      { enableHighAccuracy: true, maximumAge: LOCATION_SHARE_INTERVAL_MS }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [riderId, orderKey]);
+}
@@ -14,17 +14,341 @@ export type Database = {
   }
   public: {
     Tables: {
-      orders: {
+      account_suspensions: {
+        Row: {
+          reason: string
+          suspended_at: string
+          suspended_by: string | null
+          user_id: string
+        }
+        Insert: {
+          reason: string
+          suspended_at?: string
+          suspended_by?: string | null
+          user_id: string
+        }
+        Update: {
+          reason?: string
+          suspended_at?: string
+          suspended_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cart_items: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          product_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          product_id: string
+          quantity: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_addresses: {
+        Row: {
+          address_line: string
+          city: string
+          created_at: string
+          customer_id: string
+          id: string
+          is_default: boolean
+          label: string
+          landmark: string | null
+          latitude: number | null
+          longitude: number | null
+          state: string
+          updated_at: string
+        }
+        Insert: {
+          address_line: string
+          city: string
+          created_at?: string
+          customer_id: string
+          id?: string
+          is_default?: boolean
+          label?: string
+          landmark?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          state: string
+          updated_at?: string
+        }
+        Update: {
+          address_line?: string
+          city?: string
+          created_at?: string
+          customer_id?: string
+          id?: string
+          is_default?: boolean
+          label?: string
+          landmark?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          state?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      dispatch_offers: {
+        Row: {
+          distance_km: number | null
+          expires_at: string
+          id: string
+          offered_at: string
+          order_id: string
+          responded_at: string | null
+          rider_id: string
+          status: Database["public"]["Enums"]["dispatch_offer_status"]
+          wave: number
+        }
+        Insert: {
+          distance_km?: number | null
+          expires_at: string
+          id?: string
+          offered_at?: string
+          order_id: string
+          responded_at?: string | null
+          rider_id: string
+          status?: Database["public"]["Enums"]["dispatch_offer_status"]
+          wave: number
+        }
+        Update: {
+          distance_km?: number | null
+          expires_at?: string
+          id?: string
+          offered_at?: string
+          order_id?: string
+          responded_at?: string | null
+          rider_id?: string
+          status?: Database["public"]["Enums"]["dispatch_offer_status"]
+          wave?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispatch_offers_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dispatch_waves: {
+        Row: {
+          accept_seconds: number
+          max_offers: number
+          radius_km: number
+          wave: number
+        }
+        Insert: {
+          accept_seconds: number
+          max_offers: number
+          radius_km: number
+          wave: number
+        }
+        Update: {
+          accept_seconds?: number
+          max_offers?: number
+          radius_km?: number
+          wave?: number
+        }
+        Relationships: []
+      }
+      order_delivery_codes: {
+        Row: {
+          code: string
+          created_at: string
+          failed_attempts: number
+          order_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          failed_attempts?: number
+          order_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          failed_attempts?: number
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_delivery_codes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_groups: {
         Row: {
           created_at: string
           customer_id: string
           customer_phone: string
           delivery_address: string
           id: string
-          product_id: string
+          paid_at: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          customer_phone: string
+          delivery_address: string
+          id?: string
+          paid_at?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          total_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          customer_phone?: string
+          delivery_address?: string
+          id?: string
+          paid_at?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      order_items: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string
+          product_id: string | null
+          product_name: string
+          product_price: number
+          quantity: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id: string
+          product_id?: string | null
           product_name: string
           product_price: number
           quantity: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          product_id?: string | null
+          product_name?: string
+          product_price?: number
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          cash_collected_at: string | null
+          cash_due: number
+          created_at: string
+          customer_id: string
+          customer_phone: string
+          delivery_address: string
+          delivery_confirmed_at: string | null
+          delivery_photo_path: string | null
+          dispatch_wave: number
+          dispatched_at: string | null
+          dropoff_latitude: number | null
+          dropoff_longitude: number | null
+          id: string
+          order_group_id: string
+          pickup_latitude: number | null
+          pickup_longitude: number | null
           rider_id: string | null
           status: Database["public"]["Enums"]["order_status"]
           total_amount: number
@@ -32,15 +356,22 @@ export type Database = {
           vendor_id: string
         }
         Insert: {
+          cash_collected_at?: string | null
+          cash_due?: number
           created_at?: string
           customer_id: string
           customer_phone: string
           delivery_address: string
+          delivery_confirmed_at?: string | null
+          delivery_photo_path?: string | null
+          dispatch_wave?: number
+          dispatched_at?: string | null
+          dropoff_latitude?: number | null
+          dropoff_longitude?: number | null
           id?: string
-          product_id: string
-          product_name: string
-          product_price: number
-          quantity?: number
+          order_group_id: string
+          pickup_latitude?: number | null
+          pickup_longitude?: number | null
           rider_id?: string | null
           status?: Database["public"]["Enums"]["order_status"]
           total_amount: number
@@ -48,23 +379,159 @@ export type Database = {
           vendor_id: string
         }
         Update: {
+          cash_collected_at?: string | null
+          cash_due?: number
           created_at?: string
           customer_id?: string
           customer_phone?: string
           delivery_address?: string
+          delivery_confirmed_at?: string | null
+          delivery_photo_path?: string | null
+          dispatch_wave?: number
+          dispatched_at?: string | null
+          dropoff_latitude?: number | null
+          dropoff_longitude?: number | null
           id?: string
-          product_id?: string
-          product_name?: string
-          product_price?: number
-          quantity?: number
+          order_group_id?: string
+          pickup_latitude?: number | null
+          pickup_longitude?: number | null
           rider_id?: string | null
           status?: Database["public"]["Enums"]["order_status"]
           total_amount?: number
           updated_at?: string
           vendor_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "orders_order_group_id_fkey"
+            columns: ["order_group_id"]
+            isOneToOne: false
+            referencedRelation: "order_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_webhook_events: {
+        Row: {
+          event_key: string
+          id: string
+          payload: Json | null
+          provider: string
+          received_at: string
+          reference: string
+        }
+        Insert: {
+          event_key: string
+          id?: string
+          payload?: Json | null
+          provider: string
+          received_at?: string
+          reference: string
+        }
+        Update: {
+          event_key?: string
+          id?: string
+          payload?: Json | null
+          provider?: string
+          received_at?: string
+          reference?: string
+        }
         Relationships: []
       }
+      payments: {
+        Row: {
+          amount: number
+          authorization_url: string | null
+          created_at: string
+          currency: string
+          customer_id: string
+          id: string
+          order_group_id: string
+          paid_at: string | null
+          provider: string
+          provider_response: Json | null
+          reference: string
+          status: Database["public"]["Enums"]["payment_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          authorization_url?: string | null
+          created_at?: string
+          currency?: string
+          customer_id: string
+          id?: string
+          order_group_id: string
+          paid_at?: string | null
+          provider: string
+          provider_response?: Json | null
+          reference: string
+          status?: Database["public"]["Enums"]["payment_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          authorization_url?: string | null
+          created_at?: string
+          currency?: string
+          customer_id?: string
+          id?: string
+          order_group_id?: string
+          paid_at?: string | null
+          provider?: string
+          provider_response?: Json | null
+          reference?: string
+          status?: Database["public"]["Enums"]["payment_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_group_id_fkey"
+            columns: ["order_group_id"]
+            isOneToOne: false
+            referencedRelation: "order_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          customer_id: string
+          id: string
+          product_id: string
+          rating: number
+          updated_at: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          customer_id: string
+          id?: string
+          product_id: string
+          rating: number
+          updated_at?: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          customer_id?: string
+          id?: string
+          product_id?: string
+          rating?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
           category: string | null
@@ -74,6 +541,10 @@ export type Database = {
           image_url: string | null
           name: string
           price: number
+          rating_average: number
+          rating_count: number
+          sales_count: number
+          search_vector: unknown
           stock: number
           updated_at: string
           vendor_id: string
@@ -86,6 +557,10 @@ export type Database = {
           image_url?: string | null
           name: string
           price: number
+          rating_average?: number
+          rating_count?: number
+          sales_count?: number
+          search_vector?: unknown
           stock?: number
           updated_at?: string
           vendor_id: string
@@ -98,6 +573,10 @@ export type Database = {
           image_url?: string | null
           name?: string
           price?: number
+          rating_average?: number
+          rating_count?: number
+          sales_count?: number
+          search_vector?: unknown
           stock?: number
           updated_at?: string
           vendor_id?: string
@@ -106,28 +585,179 @@ export type Database = {
       }
       profiles: {
         Row: {
+          avatar_url: string | null
           created_at: string | null
           full_name: string | null
           id: string
+          notify_order_email: boolean
+          notify_order_sms: boolean
+          notify_promotions: boolean
           phone: string | null
           updated_at: string | null
         }
         Insert: {
+          avatar_url?: string | null
           created_at?: string | null
           full_name?: string | null
           id: string
+          notify_order_email?: boolean
+          notify_order_sms?: boolean
+          notify_promotions?: boolean
           phone?: string | null
           updated_at?: string | null
         }
         Update: {
+          avatar_url?: string | null
           created_at?: string | null
           full_name?: string | null
           id?: string
+          notify_order_email?: boolean
+          notify_order_sms?: boolean
+          notify_promotions?: boolean
           phone?: string | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      rider_availability: {
+        Row: {
+          is_available: boolean
+          latitude: number | null
+          location_updated_at: string | null
+          longitude: number | null
+          rider_id: string
+          updated_at: string
+        }
+        Insert: {
+          is_available?: boolean
+          latitude?: number | null
+          location_updated_at?: string | null
+          longitude?: number | null
+          rider_id: string
+          updated_at?: string
+        }
+        Update: {
+          is_available?: boolean
+          latitude?: number | null
+          location_updated_at?: string | null
+          longitude?: number | null
+          rider_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rider_cash_ledger: {
+        Row: {
+          amount: number
+          collected_at: string
+          id: string
+          order_id: string
+          remittance_confirmed_by: string | null
+          remitted_at: string | null
+          rider_id: string
+          vendor_id: string
+        }
+        Insert: {
+          amount: number
+          collected_at?: string
+          id?: string
+          order_id: string
+          remittance_confirmed_by?: string | null
+          remitted_at?: string | null
+          rider_id: string
+          vendor_id: string
+        }
+        Update: {
+          amount?: number
+          collected_at?: string
+          id?: string
+          order_id?: string
+          remittance_confirmed_by?: string | null
+          remitted_at?: string | null
+          rider_id?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rider_cash_ledger_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rider_documents: {
+        Row: {
+          document_type: Database["public"]["Enums"]["rider_document_type"]
+          file_name: string | null
+          id: string
+          rider_id: string
+          storage_path: string
+          uploaded_at: string
+        }
+        Insert: {
+          document_type: Database["public"]["Enums"]["rider_document_type"]
+          file_name?: string | null
+          id?: string
+          rider_id: string
+          storage_path: string
+          uploaded_at?: string
+        }
+        Update: {
+          document_type?: Database["public"]["Enums"]["rider_document_type"]
+          file_name?: string | null
+          id?: string
+          rider_id?: string
+          storage_path?: string
+          uploaded_at?: string
+        }
+        Relationships: []
+      }
+      rider_locations: {
+        Row: {
+          accuracy: number | null
+          heading: number | null
+          id: string
+          latitude: number
+          longitude: number
+          order_id: string
+          recorded_at: string
+          rider_id: string
+          speed: number | null
+        }
+        Insert: {
+          accuracy?: number | null
+          heading?: number | null
+          id?: string
+          latitude: number
+          longitude: number
+          order_id: string
+          recorded_at?: string
+          rider_id: string
+          speed?: number | null
+        }
+        Update: {
+          accuracy?: number | null
+          heading?: number | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          order_id?: string
+          recorded_at?: string
+          rider_id?: string
+          speed?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rider_locations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rider_profiles: {
         Row: {
           created_at: string
@@ -138,6 +768,10 @@ export type Database = {
           user_id: string
           vehicle_plate_number: string
           vehicle_type: string
+          verification_note: string | null
+          verification_status: Database["public"]["Enums"]["rider_verification_status"]
+          verification_submitted_at: string | null
+          verified_at: string | null
         }
         Insert: {
           created_at?: string
@@ -148,6 +782,10 @@ export type Database = {
           user_id: string
           vehicle_plate_number: string
           vehicle_type: string
+          verification_note?: string | null
+          verification_status?: Database["public"]["Enums"]["rider_verification_status"]
+          verification_submitted_at?: string | null
+          verified_at?: string | null
         }
         Update: {
           created_at?: string
@@ -158,6 +796,70 @@ export type Database = {
           user_id?: string
           vehicle_plate_number?: string
           vehicle_type?: string
+          verification_note?: string | null
+          verification_status?: Database["public"]["Enums"]["rider_verification_status"]
+          verification_submitted_at?: string | null
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
+      role_applications: {
+        Row: {
+          created_at: string
+          id: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          status: Database["public"]["Enums"]["application_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sms_outbox: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          phone: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message: string
+          phone: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          phone?: string
+          user_id?: string | null
         }
         Relationships: []
       }
@@ -184,32 +886,47 @@ export type Database = {
       }
       vendor_profiles: {
         Row: {
+          banner_url: string | null
           business_address: string
           business_description: string | null
           business_name: string
           business_phone: string
           created_at: string
           id: string
+          latitude: number | null
+          logo_url: string | null
+          longitude: number | null
+          slug: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          banner_url?: string | null
           business_address: string
           business_description?: string | null
           business_name: string
           business_phone: string
           created_at?: string
           id?: string
+          latitude?: number | null
+          logo_url?: string | null
+          longitude?: number | null
+          slug: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          banner_url?: string | null
           business_address?: string
           business_description?: string | null
           business_name?: string
           business_phone?: string
           created_at?: string
           id?: string
+          latitude?: number | null
+          logo_url?: string | null
+          longitude?: number | null
+          slug?: string
           updated_at?: string
           user_id?: string
         }
@@ -220,18 +937,157 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_order_offer: { Args: { _order_id: string }; Returns: undefined }
+      admin_cancel_order: { Args: { _order_id: string }; Returns: undefined }
+      admin_get_order_stage_durations: {
+        Args: { _since?: string }
+        Returns: {
+          average_minutes: number
+          median_minutes: number
+          next_status: Database["public"]["Enums"]["order_status"]
+          orders: number
+          p90_minutes: number
+          stage: Database["public"]["Enums"]["order_status"]
+        }[]
+      }
+      admin_list_rider_verifications: {
+        Args: { _status?: Database["public"]["Enums"]["rider_verification_status"] }
+        Returns: {
+          documents: Json
+          email: string
+          full_name: string
+          license_number: string
+          phone: string
+          user_id: string
+          vehicle_plate_number: string
+          vehicle_type: string
+          verification_note: string
+          verification_status: Database["public"]["Enums"]["rider_verification_status"]
+          verification_submitted_at: string
+        }[]
+      }
+      admin_list_role_applications: {
+        Args: { _status?: Database["public"]["Enums"]["application_status"] }
+        Returns: {
+          created_at: string
+          details: Json
+          email: string
+          full_name: string
+          id: string
+          phone: string
+          rejection_reason: string
+          role: Database["public"]["Enums"]["app_role"]
+          status: Database["public"]["Enums"]["application_status"]
+          user_id: string
+        }[]
+      }
+      admin_list_users: {
+        Args: never
+        Returns: {
+          created_at: string
+          email: string
+          full_name: string
+          phone: string
+          roles: Database["public"]["Enums"]["app_role"][]
+          suspended_at: string
+          suspension_reason: string
+          user_id: string
+        }[]
+      }
+      admin_reassign_order: {
+        Args: { _order_id: string; _rider_id: string }
+        Returns: undefined
+      }
+      admin_review_rider_verification: {
+        Args: { _approve: boolean; _note?: string; _rider_id: string }
+        Returns: undefined
+      }
+      admin_set_suspension: {
+        Args: { _reason?: string; _suspended: boolean; _user_id: string }
+        Returns: undefined
+      }
+      browse_products: {
+        Args: {
+          _category: string
+          _cursor_id?: string
+          _cursor_value?: string
+          _in_stock_only?: boolean
+          _limit?: number
+          _max_price?: number
+          _min_price?: number
+          _min_rating?: number
+          _sort?: string
+          _vendor_ids?: string[]
+        }
+        Returns: {
+          category: string
+          created_at: string
+          id: string
+          image_url: string
+          name: string
+          price: number
+          rating_average: number
+          rating_count: number
+          sales_count: number
+          stock: number
+          vendor_id: string
+        }[]
+      }
+      cancel_order: { Args: { _order_id: string }; Returns: undefined }
+      confirm_cash_collection: {
+        Args: { _amount: number; _order_id: string }
+        Returns: undefined
+      }
+      confirm_cash_remittance: { Args: { _rider_id: string }; Returns: number }
+      confirm_delivery: {
+        Args: { _code: string; _order_id: string; _photo_path?: string }
+        Returns: boolean
+      }
+      decline_order_offer: { Args: { _order_id: string }; Returns: undefined }
+      dispatch_order: { Args: { _order_id: string }; Returns: number }
+      distance_km: {
+        Args: {
+          _from_latitude: number
+          _from_longitude: number
+          _to_latitude: number
+          _to_longitude: number
+        }
+        Returns: number
+      }
+      expire_unpaid_checkouts: { Args: never; Returns: number }
+      format_customer_address: {
+        Args: {
+          _address: Database["public"]["Tables"]["customer_addresses"]["Row"]
+        }
+        Returns: string
+      }
+      generate_delivery_code: { Args: never; Returns: string }
+      generate_vendor_slug: {
+        Args: { _business_name: string; _user_id: string }
+        Returns: string
+      }
+      get_category_counts: {
+        Args: never
+        Returns: {
+          category: string
+          product_count: number
+        }[]
+      }
+      get_category_facets: { Args: { _category: string }; Returns: Json }
       get_pending_orders_for_rider: {
         Args: never
         Returns: {
+          cash_due: number
           created_at: string
           customer_id: string
           customer_phone: string
           delivery_address: string
+          delivery_distance_km: number
           id: string
-          product_id: string
-          product_name: string
-          product_price: number
-          quantity: number
+          items: Json
+          offer_expires_at: string
+          order_group_id: string
+          pickup_distance_km: number
           rider_id: string
           status: Database["public"]["Enums"]["order_status"]
           total_amount: number
@@ -239,10 +1095,49 @@ export type Database = {
           vendor_id: string
         }[]
       }
+      get_rider_cash_balances: {
+        Args: never
+        Returns: {
+          oldest_collected_at: string
+          outstanding_amount: number
+          outstanding_orders: number
+          rider_id: string
+          rider_name: string
+          rider_phone: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_vendor_public_profile: {
+        Args: { _vendor_id: string }
+        Returns: {
+          business_description: string
+          business_name: string
+          logo_url: string
+          slug: string
+          user_id: string
+        }[]
+      }
+      get_vendor_storefront: {
+        Args: { _slug: string }
+        Returns: {
+          average_delivery_minutes: number
+          banner_url: string
+          business_description: string
+          business_name: string
+          fulfilment_rate: number
+          logo_url: string
+          member_since: string
+          orders_delivered: number
+          product_count: number
+          rating_average: number
+          rating_count: number
+          slug: string
+          user_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -250,15 +1145,116 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_order_broadcast: { Args: { _dispatch_wave: number }; Returns: boolean }
+      is_order_group_dispatchable: {
+        Args: { _order_group_id: string }
+        Returns: boolean
+      }
+      is_order_group_paid: {
+        Args: { _order_group_id: string }
+        Returns: boolean
+      }
+      is_order_trackable: {
+        Args: { _order_id: string }
+        Returns: boolean
+      }
+      is_rider_verified: { Args: { _user_id: string }; Returns: boolean }
+      merge_guest_cart: { Args: { _items: Json }; Returns: undefined }
+      place_order: {
+        Args: {
+          _address_id: string
+          _customer_phone: string
+          _expected_total?: number
+          _items: Json
+          _payment_method?: Database["public"]["Enums"]["payment_method"]
+        }
+        Returns: string
+      }
+      record_payment_result: {
+        Args: {
+          _amount: number
+          _currency?: string
+          _provider: string
+          _provider_response?: Json
+          _reference: string
+          _succeeded: boolean
+        }
+        Returns: {
+          needs_refund: boolean
+          status: Database["public"]["Enums"]["payment_status"]
+        }[]
+      }
+      resubmit_role_application: {
+        Args: { _role: Database["public"]["Enums"]["app_role"] }
+        Returns: undefined
+      }
+      review_role_application: {
+        Args: {
+          _application_id: string
+          _approve: boolean
+          _rejection_reason?: string
+        }
+        Returns: undefined
+      }
+      run_dispatch: { Args: never; Returns: number }
+      search_product_suggestions: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          category: string
+          id: string
+          name: string
+        }[]
+      }
+      search_products: {
+        Args: { _limit?: number; _offset?: number; _query: string }
+        Returns: {
+          category: string
+          created_at: string
+          description: string
+          id: string
+          image_url: string
+          name: string
+          price: number
+          rank: number
+          stock: number
+          vendor_id: string
+        }[]
+      }
+      slugify: { Args: { _value: string }; Returns: string }
+      submit_rider_verification: { Args: never; Returns: undefined }
+      to_prefix_tsquery: { Args: { _query: string }; Returns: unknown }
+      update_rider_availability: {
+        Args: { _is_available: boolean; _latitude?: number; _longitude?: number }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "vendor" | "customer" | "rider"
+      app_role: "vendor" | "customer" | "rider" | "admin"
+      application_status: "pending" | "approved" | "rejected"
+      dispatch_offer_status:
+        | "offered"
+        | "accepted"
+        | "declined"
+        | "expired"
+        | "withdrawn"
       order_status:
         | "pending"
         | "accepted"
+        | "picked_up"
         | "in_transit"
         | "delivered"
         | "cancelled"
+      payment_method: "online" | "cash_on_delivery"
+      payment_status: "pending" | "paid" | "failed" | "refunded"
+      rider_document_type:
+        | "drivers_licence"
+        | "vehicle_registration"
+        | "vehicle_photo"
+      rider_verification_status:
+        | "unverified"
+        | "pending"
+        | "verified"
+        | "rejected"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -386,14 +1382,36 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["vendor", "customer", "rider"],
+      app_role: ["vendor", "customer", "rider", "admin"],
+      application_status: ["pending", "approved", "rejected"],
+      dispatch_offer_status: [
+        "offered",
+        "accepted",
+        "declined",
+        "expired",
+        "withdrawn",
+      ],
       order_status: [
         "pending",
         "accepted",
+        "picked_up",
         "in_transit",
         "delivered",
         "cancelled",
       ],
+      payment_method: ["online", "cash_on_delivery"],
+      payment_status: ["pending", "paid", "failed", "refunded"],
+      rider_document_type: [
+        "drivers_licence",
+        "vehicle_registration",
+        "vehicle_photo",
+      ],
+      rider_verification_status: [
+        "unverified",
+        "pending",
+        "verified",
+        "rejected",
+      ],
     },
   },
 } as const
@@ -0,0 +1,17 @@
+export const addressLabels = ["Home", "Office", "Other"];
+
+export interface CustomerAddress {
+  id: string;
+  label: string;
+  address_line: string;
+  city: string;
+  state: string;
+  landmark: string | null;
+  is_default: boolean;
+}
+
+// Mirrors public.format_customer_address, which builds the delivery address stored on orders
+export const formatAddress = (address: CustomerAddress) => {
+  const base = [address.address_line, address.city, address.state].join(", ");
+  return address.landmark?.trim() ? `${base} (near ${address.landmark.trim()})` : base;
+};
@@ -0,0 +1,14 @@
+import type { AppRole } from "@/lib/roles";
+
+export interface AdminUser {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  phone: string | null;
+  roles: AppRole[];
+  suspended_at: string | null;
+  suspension_reason: string | null;
+  created_at: string;
+}
+
+export const displayName = (user: AdminUser | undefined) => user?.full_name || user?.email || "Unknown user";
@@ -0,0 +1,28 @@
+// Where Supabase sends people back to from confirmation and recovery emails
+export const authRedirectUrl = (path: string) => `${window.location.origin}${path}`;
+
+export const EMAIL_CONFIRMATION_PATH = "/auth/callback";
+export const PASSWORD_UPDATE_PATH = "/auth/update-password";
+
+// Matches Supabase Auth's minimum interval between emails or SMS to the same recipient
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+export interface AuthLinkError {
+  code: string | null;
+  description: string;
+}
+
+// Expired, reused or tampered email links come back with the error in the URL hash
+// (implicit flow) or query string (PKCE flow) instead of a session
+export const getAuthLinkError = (): AuthLinkError | null => {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ""));
+  new URLSearchParams(window.location.search).forEach((value, key) => params.set(key, value));
+
+  const error = params.get("error");
+  if (!error) return null;
+
+  return {
+    code: params.get("error_code"),
+    description: params.get("error_description")?.replace(/\+/g, " ") || "This link is invalid",
+  };
+};
@@ -0,0 +1,24 @@
+import { Smartphone, Shirt, Sparkles, Home, Dumbbell, Package, Tablet, type LucideIcon } from "lucide-react";
+
+export interface Category {
+  slug: string;
+  title: string;
+  icon: LucideIcon;
+}
+
+export const categories: Category[] = [
+  { slug: "electronics", title: "Electronics", icon: Smartphone },
+  { slug: "fashion", title: "Fashion", icon: Shirt },
+  { slug: "beauty", title: "Beauty", icon: Sparkles },
+  { slug: "groceries", title: "Groceries", icon: Package },
+  { slug: "home-living", title: "Home & Living", icon: Home },
+  { slug: "sports", title: "Sports", icon: Dumbbell },
+  { slug: "phones-tablets", title: "Phones & Tablets", icon: Tablet },
+];
+
+// Vendors type categories freely, so compare on a normalised key.
+export const normalizeCategory = (value: string) => value.trim().toLowerCase();
+
+export const getCategoryBySlug = (slug: string) => categories.find((category) => category.slug === slug);
+
+export const formatItemCount = (count: number) => `${count.toLocaleString()} ${count === 1 ? "item" : "items"}`;
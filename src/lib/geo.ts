@@ -0,0 +1,46 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export const locationErrorMessage = (error: GeolocationPositionError) =>
+  error.code === error.PERMISSION_DENIED
+    ? "Allow location access in your browser to use this"
+    : "We couldn't find your location. Try again outside or near a window.";
+
+/** One-off position fix from the browser, e.g. to pin an address. */
+export const getCurrentPosition = () =>
+  new Promise<Coordinates>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location isn't available in this browser"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      (error) => reject(new Error(locationErrorMessage(error))),
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  });
+
+export const formatDistance = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+/** Great-circle distance in kilometres, matching distance_km() in the database. */
+export const distanceKm = (from: Coordinates, to: Coordinates) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+};
+
+// Typical city riding speed including stops; GPS speed swings too much to use directly
+const AVERAGE_RIDER_SPEED_KMH = 20;
+
+/** Minutes to cover a route through the given points, at least one. */
+export const estimateMinutes = (route: Coordinates[]) => {
+  const km = route.slice(1).reduce((total, point, index) => total + distanceKm(route[index], point), 0);
+  return Math.max(1, Math.round((km / AVERAGE_RIDER_SPEED_KMH) * 60));
+};
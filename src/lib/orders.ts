@@ -0,0 +1,39 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+export type OrderStatusEvent = Database["public"]["Tables"]["order_status_events"]["Row"];
+
+export const DELIVERY_PROOFS_BUCKET = "delivery-proofs";
+
+export const DELIVERY_CODE_LENGTH = 4;
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  pending: "Order placed",
+  accepted: "Rider assigned",
+  picked_up: "Picked up",
+  in_transit: "On the way",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+/** Short human duration between two timestamps, e.g. "4 min" or "1 h 20 min". */
+export const formatDuration = (from: string, to: string) => {
+  const minutes = Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+  if (minutes < 1) return "under a minute";
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+// Photo links expire so a copied URL doesn't keep the picture reachable
+const PHOTO_LINK_SECONDS = 60 * 5;
+
+export const openDeliveryPhoto = async (path: string) => {
+  const { data, error } = await supabase.storage.from(DELIVERY_PROOFS_BUCKET).createSignedUrl(path, PHOTO_LINK_SECONDS);
+  if (error) throw error;
+  window.open(data.signedUrl, "_blank", "noopener");
+};
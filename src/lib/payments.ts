@@ -0,0 +1,48 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PaymentStatus = "pending" | "paid" | "failed" | "refunded";
+
+export type PaymentProvider = "paystack" | "flutterwave";
+
+export const paymentProviders: { id: PaymentProvider; name: string; description: string }[] = [
+  { id: "paystack", name: "Paystack", description: "Card, bank transfer or USSD" },
+  { id: "flutterwave", name: "Flutterwave", description: "Card, bank transfer, USSD or mobile money" },
+];
+
+interface InitializeResponse {
+  reference: string;
+  authorization_url: string;
+}
+
+interface VerifyResponse {
+  status: PaymentStatus;
+  provider: PaymentProvider | "mock";
+  order_group_id: string;
+}
+
+// Edge function errors come back as a generic FunctionsHttpError; the useful message is in the body
+const invokePayments = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("payments", { body });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+};
+
+/** Opens a payment for a checkout and sends the browser to the provider's payment page. */
+export const startPayment = async (orderGroupId: string, provider: PaymentProvider = "paystack") => {
+  const { authorization_url } = await invokePayments<InitializeResponse>({
+    action: "initialize",
+    order_group_id: orderGroupId,
+    provider,
+    callback_url: `${window.location.origin}/checkout/complete`,
+  });
+  window.location.assign(authorization_url);
+};
+
+export const verifyPayment = (reference: string) =>
+  invokePayments<VerifyResponse>({ action: "verify", reference });
+
+export const completeMockPayment = (reference: string, outcome: "success" | "failed") =>
+  invokePayments<{ ok: boolean }>({ action: "mock_complete", reference, outcome });
@@ -0,0 +1,25 @@
+// Nigerian mobile numbers are 10 digits after the country code and start with 7, 8 or 9
+const NIGERIAN_MOBILE = /^[789][01]\d{8}$/;
+
+// Accepts the ways people write Nigerian numbers (0803…, 803…, 234803…, +234 803…) and
+// returns the E.164 form Supabase Auth expects, or null when it isn't a Nigerian mobile number
+export const normalizeNigerianPhone = (input: string): string | null => {
+  const compact = input.trim().replace(/[\s\-().]/g, "");
+  const digits = compact.replace(/^\+/, "");
+  if (!/^\d+$/.test(digits)) return null;
+
+  let national: string;
+  if (digits.startsWith("234")) {
+    national = digits.slice(3).replace(/^0/, "");
+  } else if (digits.startsWith("0")) {
+    national = digits.slice(1);
+  } else {
+    national = digits;
+  }
+
+  return NIGERIAN_MOBILE.test(national) ? `+234${national}` : null;
+};
+
+// +2348031234567 → +234 803 123 4567
+export const formatNigerianPhone = (e164: string) =>
+  e164.replace(/^\+234(\d{3})(\d{3})(\d{4})$/, "+234 $1 $2 $3");
@@ -0,0 +1,40 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type RiderVerificationStatus = Database["public"]["Enums"]["rider_verification_status"];
+
+export type RiderDocumentType = Database["public"]["Enums"]["rider_document_type"];
+
+export const RIDER_DOCUMENTS_BUCKET = "rider-documents";
+
+export const verificationLabels: Record<RiderVerificationStatus, string> = {
+  unverified: "Not verified",
+  pending: "Under review",
+  verified: "Verified",
+  rejected: "Needs changes",
+};
+
+export const riderDocumentTypes: { type: RiderDocumentType; label: string; required: boolean }[] = [
+  { type: "drivers_licence", label: "Driver's licence", required: true },
+  { type: "vehicle_registration", label: "Vehicle registration", required: true },
+  { type: "vehicle_photo", label: "Photo of your vehicle", required: false },
+];
+
+export const documentLabel = (type: RiderDocumentType) =>
+  riderDocumentTypes.find((document) => document.type === type)?.label ?? type;
+
+export const vehicleTypes = [
+  { value: "motorcycle", label: "Motorcycle" },
+  { value: "bicycle", label: "Bicycle" },
+  { value: "car", label: "Car" },
+  { value: "van", label: "Van" },
+];
+
+// Document links expire so a copied URL doesn't keep the file reachable
+const DOCUMENT_LINK_SECONDS = 60 * 5;
+
+export const openRiderDocument = async (path: string) => {
+  const { data, error } = await supabase.storage.from(RIDER_DOCUMENTS_BUCKET).createSignedUrl(path, DOCUMENT_LINK_SECONDS);
+  if (error) throw error;
+  window.open(data.signedUrl, "_blank", "noopener");
+};
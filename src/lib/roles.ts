@@ -0,0 +1,33 @@
+export type AppRole = "vendor" | "customer" | "rider" | "admin";
+
+export type ApplicationStatus = "pending" | "approved" | "rejected";
+
+export interface RoleApplicationSummary {
+  role: AppRole;
+  status: ApplicationStatus;
+}
+
+export const roleLabels: Record<AppRole, string> = {
+  customer: "Customer",
+  vendor: "Vendor",
+  rider: "Rider",
+  admin: "Admin",
+};
+
+export const roleHomePaths: Record<AppRole, string> = {
+  customer: "/customer/dashboard",
+  vendor: "/vendor/dashboard",
+  rider: "/rider/dashboard",
+  admin: "/admin",
+};
+
+// The role a user starts in when they haven't picked one yet
+export const rolePriority: AppRole[] = ["admin", "vendor", "rider", "customer"];
+
+// Where a signed-in user lands when they weren't on their way somewhere else
+export const getHomePath = (role: AppRole | null, applications: RoleApplicationSummary[]) => {
+  if (role && role !== "customer") return roleHomePaths[role];
+  // Customers with a vendor or rider application in flight land on its status page
+  if (applications.some((application) => application.status !== "approved")) return "/application";
+  return role ? roleHomePaths[role] : "/";
+};
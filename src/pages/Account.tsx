@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import ProfileSection, { type ProfileDetails } from "@/components/account/ProfileSection";
+import AddressBook from "@/components/account/AddressBook";
+import NotificationPreferences, { type NotificationSettings } from "@/components/account/NotificationPreferences";
+import { toast } from "sonner";
+
+type Profile = ProfileDetails & NotificationSettings;
+
+const Account = () => {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      if (!user) return;
+      try {
+        const { data, error } = await supabase
+          .from("profiles")
+          .select("full_name, phone, avatar_url, notify_order_email, notify_order_sms, notify_promotions")
+          .eq("id", user.id)
+          .single();
+
+        if (error) throw error;
+        setProfile(data);
+      } catch (error) {
+        toast.error("Failed to load your profile");
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, [user]);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-4 py-12 max-w-2xl space-y-6">
+        <h1 className="text-3xl font-bold">My Account</h1>
+
+        {loading ? (
+          <div className="text-center py-12 text-muted-foreground">Loading...</div>
+        ) : !profile || !user ? (
+          <div className="text-center py-12 text-muted-foreground">We couldn't find your profile.</div>
+        ) : (
+          <>
+            <ProfileSection
+              userId={user.id}
+              email={user.email}
+              profile={profile}
+              onSaved={(details) => setProfile({ ...profile, ...details })}
+            />
+            <AddressBook userId={user.id} />
+            <NotificationPreferences userId={user.id} settings={profile} />
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Account;
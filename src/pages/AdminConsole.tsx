@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { ShieldCheck } from "lucide-react";
+import ApplicationsTable from "@/components/admin/ApplicationsTable";
+import UsersTable from "@/components/admin/UsersTable";
+import OrdersTable from "@/components/admin/OrdersTable";
+import RiderVerificationsTable from "@/components/admin/RiderVerificationsTable";
+import StageDurationsTable from "@/components/admin/StageDurationsTable";
+import CashReconciliation from "@/components/CashReconciliation";
+import AccountMenu from "@/components/AccountMenu";
+import type { AdminUser } from "@/lib/admin";
+
+const AdminConsole = () => {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc("admin_list_users");
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (error) {
+      toast.error("Failed to load accounts");
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold">Admin Console</h1>
+          </div>
+          <AccountMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Tabs defaultValue="applications">
+          <TabsList className="mb-6">
+            <TabsTrigger value="applications">Applications</TabsTrigger>
+            <TabsTrigger value="riders">Rider Checks</TabsTrigger>
+            <TabsTrigger value="orders">Orders</TabsTrigger>
+            <TabsTrigger value="delivery-times">Delivery Times</TabsTrigger>
+            <TabsTrigger value="accounts">Accounts</TabsTrigger>
+            <TabsTrigger value="cash">Cash</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="applications">
+            <Card>
+              <CardContent className="pt-6">
+                <ApplicationsTable onReviewed={loadUsers} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="riders">
+            <Card>
+              <CardContent className="pt-6">
+                <RiderVerificationsTable />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="orders">
+            <Card>
+              <CardContent className="pt-6">
+                <OrdersTable users={users} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="delivery-times">
+            <Card>
+              <CardContent className="pt-6">
+                <StageDurationsTable />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="accounts">
+            <Card>
+              <CardContent className="pt-6">
+                <UsersTable users={users} currentUserId={user?.id ?? null} onChanged={loadUsers} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="cash">
+            <CashReconciliation canConfirm={false} />
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+};
+
+export default AdminConsole;
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { Bike, Package } from "lucide-react";
+import type { AppRole } from "@/lib/roles";
+
+interface RoleApplication {
+  id: string;
+  role: AppRole;
+  status: "pending" | "approved" | "rejected";
+  rejection_reason: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+const roleDetails = {
+  vendor: { title: "Vendor", icon: Package, dashboard: "/vendor/dashboard" },
+  rider: { title: "Rider", icon: Bike, dashboard: "/rider/dashboard" },
+};
+
+const statusDescriptions = {
+  pending: "We're reviewing your details. This usually takes one to two business days.",
+  approved: "You're all set. Your dashboard is ready.",
+  rejected: "Your application wasn't approved.",
+};
+
+const ApplicationStatus = () => {
+  const navigate = useNavigate();
+  const { user, refresh } = useAuth();
+  const [applications, setApplications] = useState<RoleApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadApplications = async () => {
+      if (!user) return;
+      try {
+        const { data, error } = await supabase
+          .from("role_applications")
+          .select("id, role, status, rejection_reason, created_at, reviewed_at")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        setApplications(data || []);
+      } catch (error) {
+        toast.error("Failed to load your application");
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadApplications();
+  }, [user]);
+
+  // The role may have been granted since this session loaded it
+  const openDashboard = async (path: string) => {
+    await refresh();
+    navigate(path);
+  };
+
+  const handleResubmit = async (application: RoleApplication) => {
+    try {
+      const { error } = await supabase.rpc("resubmit_role_application", { _role: application.role });
+      if (error) throw error;
+
+      toast.success("Application resubmitted for review");
+      refresh();
+      setApplications((current) =>
+        current.map((existing) =>
+          existing.id === application.id ? { ...existing, status: "pending", rejection_reason: null } : existing
+        )
+      );
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to resubmit application");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12 max-w-2xl space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold">Your Application</h2>
+          <p className="text-muted-foreground">
+            You can keep shopping as a customer while we review it.
+          </p>
+        </div>
+
+        {applications.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <p className="text-muted-foreground mb-4">You haven't applied to sell or deliver on Jiffy NG.</p>
+              <Button onClick={() => navigate("/")}>Continue Shopping</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          applications.map((application) => {
+            const details = roleDetails[application.role as keyof typeof roleDetails];
+            if (!details) return null;
+            const Icon = details.icon;
+
+            return (
+              <Card key={application.id}>
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <CardTitle className="flex items-center gap-2">
+                      <Icon className="h-5 w-5" />
+                      {details.title} Application
+                    </CardTitle>
+                    <Badge
+                      variant={
+                        application.status === "approved"
+                          ? "default"
+                          : application.status === "rejected"
+                            ? "destructive"
+                            : "secondary"
+                      }
+                    >
+                      {application.status}
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    Submitted {new Date(application.created_at).toLocaleDateString()}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm">{statusDescriptions[application.status]}</p>
+                  {application.rejection_reason && (
+                    <p className="text-sm text-muted-foreground bg-muted/50 p-3 rounded">
+                      {application.rejection_reason}
+                    </p>
+                  )}
+                  {application.status === "approved" && (
+                    <Button onClick={() => openDashboard(details.dashboard)}>Go to Dashboard</Button>
+                  )}
+                  {application.status === "rejected" && (
+                    <Button variant="outline" onClick={() => handleResubmit(application)}>
+                      Request Another Review
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ApplicationStatus;
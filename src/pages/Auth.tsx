@@ -1,20 +1,27 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
+import { Link, useLocation, useNavigate, type Location } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { toast } from "sonner";
 import { User, Package, Bike } from "lucide-react";
 import { z } from "zod";
 import { CustomerSignupForm } from "@/components/auth/CustomerSignupForm";
 import { VendorSignupForm, type VendorSignupData } from "@/components/auth/VendorSignupForm";
 import { RiderSignupForm, type RiderSignupData } from "@/components/auth/RiderSignupForm";
+import { PhoneOtpForm } from "@/components/auth/PhoneOtpForm";
+import { CheckInbox } from "@/components/auth/CheckInbox";
+import { authRedirectUrl, EMAIL_CONFIRMATION_PATH } from "@/lib/auth";
 
 type UserRole = "customer" | "vendor" | "rider";
 
+type AuthMethod = "email" | "phone";
+
 const signInSchema = z.object({
   email: z.string().trim().email({ message: "Invalid email address" }),
   password: z.string().min(1, { message: "Password is required" }),
@@ -22,146 +29,134 @@ const signInSchema = z.object({
 
 const Auth = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { session, loading: authLoading, homePath, refresh } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [selectedRole, setSelectedRole] = useState<UserRole>("customer");
+  const [method, setMethod] = useState<AuthMethod>("email");
+  // Email address waiting on its confirmation link
+  const [pendingConfirmation, setPendingConfirmation] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
+  // Set while a signup is in progress so it can finish creating the profile before navigating
+  const signingUp = useRef(false);
+
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnPath = from ? `${from.pathname}${from.search}` : null;
+
+  // Signed-in visitors go back to the page that sent them here, or to their own home
   useEffect(() => {
-    const checkUser = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session) {
-        const { data: roleData } = await supabase
-          .from("user_roles")
-          .select("role")
-          .eq("user_id", session.user.id)
-          .maybeSingle();
+    if (authLoading || !session || signingUp.current) return;
+    navigate(returnPath || homePath, { replace: true });
+  }, [authLoading, session, homePath, returnPath, navigate]);
 
-        if (roleData?.role === "vendor") {
-          navigate("/vendor/dashboard");
-        } else if (roleData?.role === "rider") {
-          navigate("/rider/dashboard");
-        } else {
-          navigate("/");
-        }
-      }
-    };
-    checkUser();
-  }, [navigate]);
+  // Creates the account; returns whether it's signed in straight away or waiting on email confirmation
+  const signUp = async (
+    data: Pick<VendorSignupData, "email" | "password" | "fullName" | "phone">,
+    profile: Record<string, unknown> = {}
+  ) => {
+    const { data: authData, error: signUpError } = await supabase.auth.signUp({
+      email: data.email,
+      password: data.password,
+      options: {
+        data: {
+          full_name: data.fullName,
+          phone: data.phone,
+          ...profile,
+        },
+        emailRedirectTo: authRedirectUrl(EMAIL_CONFIRMATION_PATH),
+      },
+    });
+
+    if (signUpError) throw signUpError;
+
+    if (!authData.session) {
+      setPendingConfirmation(data.email);
+      return false;
+    }
+    return true;
+  };
 
   const handleCustomerSignup = async (data: { email: string; password: string; fullName: string; phone: string }) => {
     setLoading(true);
+    signingUp.current = true;
     try {
-      const { data: authData, error: signUpError } = await supabase.auth.signUp({
-        email: data.email,
-        password: data.password,
-        options: {
-          data: {
-            full_name: data.fullName,
-            phone: data.phone,
-            role: "customer",
-          },
-          emailRedirectTo: `${window.location.origin}/`,
-        },
-      });
-
-      if (signUpError) throw signUpError;
-
-      if (authData.user) {
+      if (await signUp(data)) {
         toast.success("Account created successfully!");
-        navigate("/");
+        navigate(returnPath || "/");
       }
     } catch (error: any) {
       toast.error(error.message || "Failed to sign up");
     } finally {
+      signingUp.current = false;
       setLoading(false);
     }
   };
 
+  // The vendor and rider profiles are created from the signup metadata, which submits the application
   const handleVendorSignup = async (data: VendorSignupData) => {
     setLoading(true);
+    signingUp.current = true;
     try {
-      const { data: authData, error: signUpError } = await supabase.auth.signUp({
-        email: data.email,
-        password: data.password,
-        options: {
-          data: {
-            full_name: data.fullName,
-            phone: data.phone,
-            role: "vendor",
-          },
-          emailRedirectTo: `${window.location.origin}/`,
+      const signedIn = await signUp(data, {
+        vendor_profile: {
+          business_name: data.businessName,
+          business_address: data.businessAddress,
+          business_phone: data.businessPhone,
+          business_description: data.businessDescription || null,
         },
       });
 
-      if (signUpError) throw signUpError;
-
-      if (authData.user) {
-        // Create vendor profile
-        const { error: profileError } = await supabase
-          .from("vendor_profiles")
-          .insert({
-            user_id: authData.user.id,
-            business_name: data.businessName,
-            business_address: data.businessAddress,
-            business_phone: data.businessPhone,
-            business_description: data.businessDescription || null,
-          });
-
-        if (profileError) throw profileError;
-
-        toast.success("Vendor account created successfully!");
-        navigate("/vendor/dashboard");
+      if (signedIn) {
+        await refresh();
+        toast.success("Vendor application submitted! We'll review it shortly.");
+        navigate("/application");
       }
     } catch (error: any) {
       toast.error(error.message || "Failed to sign up");
     } finally {
+      signingUp.current = false;
       setLoading(false);
     }
   };
 
   const handleRiderSignup = async (data: RiderSignupData) => {
     setLoading(true);
+    signingUp.current = true;
     try {
-      const { data: authData, error: signUpError } = await supabase.auth.signUp({
-        email: data.email,
-        password: data.password,
-        options: {
-          data: {
-            full_name: data.fullName,
-            phone: data.phone,
-            role: "rider",
-          },
-          emailRedirectTo: `${window.location.origin}/`,
+      const signedIn = await signUp(data, {
+        rider_profile: {
+          vehicle_type: data.vehicleType,
+          vehicle_plate_number: data.vehiclePlateNumber,
+          license_number: data.licenseNumber || null,
+          emergency_contact: data.emergencyContact || null,
         },
       });
 
-      if (signUpError) throw signUpError;
-
-      if (authData.user) {
-        // Create rider profile
-        const { error: profileError } = await supabase
-          .from("rider_profiles")
-          .insert({
-            user_id: authData.user.id,
-            vehicle_type: data.vehicleType,
-            vehicle_plate_number: data.vehiclePlateNumber,
-            license_number: data.licenseNumber || null,
-            emergency_contact: data.emergencyContact || null,
-          });
-
-        if (profileError) throw profileError;
-
-        toast.success("Rider account created successfully!");
-        navigate("/rider/dashboard");
+      if (signedIn) {
+        await refresh();
+        toast.success("Rider application submitted! We'll review it shortly.");
+        navigate("/application");
       }
     } catch (error: any) {
       toast.error(error.message || "Failed to sign up");
     } finally {
+      signingUp.current = false;
       setLoading(false);
     }
   };
 
+  const resendConfirmation = async () => {
+    if (!pendingConfirmation) return;
+    const { error } = await supabase.auth.resend({
+      type: "signup",
+      email: pendingConfirmation,
+      options: { emailRedirectTo: authRedirectUrl(EMAIL_CONFIRMATION_PATH) },
+    });
+    if (error) throw error;
+  };
+
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -184,24 +179,24 @@ const Auth = () => {
         password: validationResult.data.password,
       });
 
-      if (error) throw error;
+      if (error) {
+        // Accounts that never confirmed their email get a fresh link instead of a dead end
+        if (/email not confirmed/i.test(error.message)) {
+          const { error: resendError } = await supabase.auth.resend({
+            type: "signup",
+            email: validationResult.data.email,
+            options: { emailRedirectTo: authRedirectUrl(EMAIL_CONFIRMATION_PATH) },
+          });
+          if (resendError) throw resendError;
+          toast.info("Confirm your email to sign in. We've sent you a new link.");
+          setPendingConfirmation(validationResult.data.email);
+          return;
+        }
+        throw error;
+      }
 
       if (data.user) {
-        const { data: roleData } = await supabase
-          .from("user_roles")
-          .select("role")
-          .eq("user_id", data.user.id)
-          .maybeSingle();
-
         toast.success("Signed in successfully!");
-        
-        if (roleData?.role === "vendor") {
-          navigate("/vendor/dashboard");
-        } else if (roleData?.role === "rider") {
-          navigate("/rider/dashboard");
-        } else {
-          navigate("/");
-        }
       }
     } catch (error: any) {
       toast.error(error.message || "Failed to sign in");
@@ -216,6 +211,19 @@ const Auth = () => {
     { value: "rider", label: "Rider", icon: Bike, description: "Deliver orders" },
   ];
 
+  const methodToggle = (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      className="grid grid-cols-2"
+      value={method}
+      onValueChange={(value) => value && setMethod(value as AuthMethod)}
+    >
+      <ToggleGroupItem value="email">Email</ToggleGroupItem>
+      <ToggleGroupItem value="phone">Phone</ToggleGroupItem>
+    </ToggleGroup>
+  );
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
       <Card className="w-full max-w-md">
@@ -224,79 +232,102 @@ const Auth = () => {
           <CardDescription>Sign in or create an account to continue</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="signin">Sign In</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
-            </TabsList>
+          {pendingConfirmation ? (
+            <CheckInbox
+              email={pendingConfirmation}
+              purpose="confirm your account"
+              onResend={resendConfirmation}
+              onBack={() => setPendingConfirmation(null)}
+            />
+          ) : (
+            <Tabs defaultValue="signin" className="w-full">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="signin">Sign In</TabsTrigger>
+                <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              </TabsList>
 
-            <TabsContent value="signin">
-              <form onSubmit={handleSignIn} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signin-email">Email</Label>
-                  <Input
-                    id="signin-email"
-                    type="email"
-                    placeholder="your@email.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signin-password">Password</Label>
-                  <Input
-                    id="signin-password"
-                    type="password"
-                    placeholder="••••••••"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                  />
-                </div>
-                <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? "Signing in..." : "Sign In"}
-                </Button>
-              </form>
-            </TabsContent>
+              <TabsContent value="signin" className="space-y-4">
+                {methodToggle}
+                {method === "phone" ? (
+                  <PhoneOtpForm mode="signin" />
+                ) : (
+                  <form onSubmit={handleSignIn} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-email">Email</Label>
+                      <Input
+                        id="signin-email"
+                        type="email"
+                        placeholder="your@email.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="signin-password">Password</Label>
+                        <Link to="/auth/reset" className="text-sm text-muted-foreground hover:text-primary">
+                          Forgot password?
+                        </Link>
+                      </div>
+                      <Input
+                        id="signin-password"
+                        type="password"
+                        placeholder="••••••••"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      {loading ? "Signing in..." : "Sign In"}
+                    </Button>
+                  </form>
+                )}
+              </TabsContent>
 
-            <TabsContent value="signup">
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label>I want to sign up as</Label>
-                  <div className="grid grid-cols-3 gap-2">
-                    {roleOptions.map((role) => (
-                      <button
-                        key={role.value}
-                        type="button"
-                        onClick={() => setSelectedRole(role.value as UserRole)}
-                        className={`flex flex-col items-center gap-2 p-3 rounded-lg border-2 transition-all ${
-                          selectedRole === role.value
-                            ? "border-primary bg-primary/10"
-                            : "border-border hover:border-primary/50"
-                        }`}
-                      >
-                        <role.icon className="h-5 w-5" />
-                        <span className="text-xs font-medium">{role.label}</span>
-                      </button>
-                    ))}
+              <TabsContent value="signup">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>I want to sign up as</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {roleOptions.map((role) => (
+                        <button
+                          key={role.value}
+                          type="button"
+                          onClick={() => setSelectedRole(role.value as UserRole)}
+                          className={`flex flex-col items-center gap-2 p-3 rounded-lg border-2 transition-all ${
+                            selectedRole === role.value
+                              ? "border-primary bg-primary/10"
+                              : "border-border hover:border-primary/50"
+                          }`}
+                        >
+                          <role.icon className="h-5 w-5" />
+                          <span className="text-xs font-medium">{role.label}</span>
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                <div className="pt-4">
-                  {selectedRole === "customer" && (
-                    <CustomerSignupForm onSubmit={handleCustomerSignup} loading={loading} />
-                  )}
-                  {selectedRole === "vendor" && (
-                    <VendorSignupForm onSubmit={handleVendorSignup} loading={loading} />
-                  )}
-                  {selectedRole === "rider" && (
-                    <RiderSignupForm onSubmit={handleRiderSignup} loading={loading} />
-                  )}
+                  <div className="pt-4 space-y-4">
+                    {selectedRole === "customer" && methodToggle}
+                    {selectedRole === "customer" &&
+                      (method === "phone" ? (
+                        <PhoneOtpForm mode="signup" />
+                      ) : (
+                        <CustomerSignupForm onSubmit={handleCustomerSignup} loading={loading} />
+                      ))}
+                    {selectedRole === "vendor" && (
+                      <VendorSignupForm onSubmit={handleVendorSignup} loading={loading} />
+                    )}
+                    {selectedRole === "rider" && (
+                      <RiderSignupForm onSubmit={handleRiderSignup} loading={loading} />
+                    )}
+                  </div>
                 </div>
-              </div>
-            </TabsContent>
-          </Tabs>
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { z } from "zod";
+import { CheckInbox } from "@/components/auth/CheckInbox";
+import { authRedirectUrl, EMAIL_CONFIRMATION_PATH, getAuthLinkError } from "@/lib/auth";
+
+const emailSchema = z.string().trim().email({ message: "Invalid email address" });
+
+// Landing page for signup confirmation links
+const AuthCallback = () => {
+  const navigate = useNavigate();
+  const { session, loading: authLoading, homePath } = useAuth();
+  const [linkError] = useState(getAuthLinkError);
+  const [email, setEmail] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const confirmed = !linkError && !authLoading && !!session;
+
+  useEffect(() => {
+    if (!confirmed) return;
+    toast.success("Email confirmed. Welcome to Jiffy NG!");
+    navigate(homePath, { replace: true });
+  }, [confirmed, homePath, navigate]);
+
+  const sendConfirmation = async (address: string) => {
+    const { error } = await supabase.auth.resend({
+      type: "signup",
+      email: address,
+      options: { emailRedirectTo: authRedirectUrl(EMAIL_CONFIRMATION_PATH) },
+    });
+    if (error) throw error;
+  };
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = emailSchema.safeParse(email);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    try {
+      setSending(true);
+      await sendConfirmation(result.data);
+      setSentTo(result.data);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to send confirmation email");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!linkError && (authLoading || confirmed)) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">This link can't be used</CardTitle>
+          <CardDescription>
+            {linkError?.code === "otp_expired"
+              ? "Confirmation links expire after a while and can only be used once. If you've already confirmed, just sign in."
+              : linkError?.description || "Open the most recent confirmation link we emailed you, or request a new one."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentTo ? (
+            <CheckInbox
+              email={sentTo}
+              purpose="confirm your account"
+              onResend={() => sendConfirmation(sentTo)}
+              onBack={() => setSentTo(null)}
+            />
+          ) : (
+            <form onSubmit={handleResend} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="confirm-email">Email</Label>
+                <Input
+                  id="confirm-email"
+                  type="email"
+                  placeholder="your@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={sending}>
+                {sending ? "Sending..." : "Send a New Confirmation Link"}
+              </Button>
+              <p className="text-center text-sm text-muted-foreground">
+                Already confirmed?{" "}
+                <Link to="/auth" className="text-primary hover:underline">
+                  Sign in
+                </Link>
+              </p>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthCallback;
@@ -0,0 +1,362 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import ProductCard from "@/components/ProductCard";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { PackageX, Star } from "lucide-react";
+import { getCategoryBySlug } from "@/lib/categories";
+import { formatPrice } from "@/lib/utils";
+
+const PAGE_SIZE = 24;
+
+type SortOption = "newest" | "price_asc" | "price_desc" | "popularity";
+
+const sortOptions: { value: SortOption; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "price_asc", label: "Price: Low to High" },
+  { value: "price_desc", label: "Price: High to Low" },
+  { value: "popularity", label: "Most Popular" },
+];
+
+interface CatalogProduct {
+  id: string;
+  name: string;
+  price: number;
+  image_url: string | null;
+  stock: number;
+  rating_average: number;
+  rating_count: number;
+  sales_count: number;
+  created_at: string;
+}
+
+interface VendorFacet {
+  vendor_id: string;
+  business_name: string;
+  product_count: number;
+}
+
+interface CategoryFacets {
+  min_price: number;
+  max_price: number;
+  vendors: VendorFacet[];
+}
+
+interface CatalogFilters {
+  category: string;
+  sort: SortOption;
+  priceRange: [number, number] | null;
+  vendorIds: string[];
+  inStockOnly: boolean;
+  minRating: number | null;
+}
+
+const getCursorValue = (product: CatalogProduct, sort: SortOption) => {
+  switch (sort) {
+    case "price_asc":
+    case "price_desc":
+      return product.price.toString();
+    case "popularity":
+      return product.sales_count.toString();
+    default:
+      return product.created_at;
+  }
+};
+
+const fetchCatalogPage = async (filters: CatalogFilters, after: CatalogProduct | null) => {
+  const { data, error } = await supabase.rpc("browse_products", {
+    _category: filters.category,
+    _sort: filters.sort,
+    _min_price: filters.priceRange?.[0],
+    _max_price: filters.priceRange?.[1],
+    _vendor_ids: filters.vendorIds.length > 0 ? filters.vendorIds : undefined,
+    _in_stock_only: filters.inStockOnly,
+    _min_rating: filters.minRating ?? undefined,
+    _cursor_value: after ? getCursorValue(after, filters.sort) : undefined,
+    _cursor_id: after?.id,
+    _limit: PAGE_SIZE,
+  });
+
+  if (error) throw error;
+  return (data || []) as CatalogProduct[];
+};
+
+const CategoryPage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const category = slug ? getCategoryBySlug(slug) : undefined;
+
+  const [facets, setFacets] = useState<CategoryFacets | null>(null);
+  const [sort, setSort] = useState<SortOption>("newest");
+  const [priceRange, setPriceRange] = useState<[number, number] | null>(null);
+  const [draftPriceRange, setDraftPriceRange] = useState<[number, number] | null>(null);
+  const [vendorIds, setVendorIds] = useState<string[]>([]);
+  const [inStockOnly, setInStockOnly] = useState(false);
+  const [minRating, setMinRating] = useState<number | null>(null);
+
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const filters = useMemo<CatalogFilters | null>(
+    () =>
+      category
+        ? { category: category.title, sort, priceRange, vendorIds, inStockOnly, minRating }
+        : null,
+    [category, sort, priceRange, vendorIds, inStockOnly, minRating]
+  );
+
+  useEffect(() => {
+    if (!category) return;
+
+    setPriceRange(null);
+    setVendorIds([]);
+    setInStockOnly(false);
+    setMinRating(null);
+
+    supabase.rpc("get_category_facets", { _category: category.title }).then(({ data, error }) => {
+      if (error) {
+        console.error(error);
+        return;
+      }
+      const loaded = data as unknown as CategoryFacets;
+      setFacets(loaded);
+      setDraftPriceRange([loaded.min_price, loaded.max_price]);
+    });
+  }, [category]);
+
+  useEffect(() => {
+    if (!filters) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    fetchCatalogPage(filters, null)
+      .then((page) => {
+        if (cancelled) return;
+        setProducts(page);
+        setHasMore(page.length === PAGE_SIZE);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast.error("Failed to load products");
+        console.error(error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const handleLoadMore = async () => {
+    if (!filters || products.length === 0) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchCatalogPage(filters, products[products.length - 1]);
+      setProducts([...products, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      toast.error("Failed to load more products");
+      console.error(error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const toggleVendor = (vendorId: string, checked: boolean) => {
+    setVendorIds(checked ? [...vendorIds, vendorId] : vendorIds.filter((id) => id !== vendorId));
+  };
+
+  const clearFilters = () => {
+    setPriceRange(null);
+    setDraftPriceRange(facets ? [facets.min_price, facets.max_price] : null);
+    setVendorIds([]);
+    setInStockOnly(false);
+    setMinRating(null);
+  };
+
+  if (!category) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-24 text-center">
+          <PackageX className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-2xl font-bold mb-2">Category not found</h2>
+          <p className="text-muted-foreground mb-6">We couldn't find the category you were looking for.</p>
+          <Button onClick={() => navigate("/")}>Continue Shopping</Button>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-8">
+          <h2 className="text-3xl font-bold">{category.title}</h2>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="sort" className="text-sm text-muted-foreground whitespace-nowrap">
+              Sort by
+            </Label>
+            <Select value={sort} onValueChange={(value) => setSort(value as SortOption)}>
+              <SelectTrigger id="sort" className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-[16rem_1fr] gap-8">
+          {/* Facets */}
+          <aside>
+            <Card className="p-4 space-y-6">
+              <div className="flex justify-between items-center">
+                <h3 className="font-semibold">Filters</h3>
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={clearFilters}>
+                  Clear all
+                </Button>
+              </div>
+
+              {facets && draftPriceRange && facets.max_price > facets.min_price && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium">Price</h4>
+                  <Slider
+                    min={facets.min_price}
+                    max={facets.max_price}
+                    step={Math.max(1, Math.round((facets.max_price - facets.min_price) / 100))}
+                    value={draftPriceRange}
+                    onValueChange={(value) => setDraftPriceRange([value[0], value[1]])}
+                    onValueCommit={(value) => setPriceRange([value[0], value[1]])}
+                  />
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{formatPrice(draftPriceRange[0])}</span>
+                    <span>{formatPrice(draftPriceRange[1])}</span>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="in-stock" className="text-sm font-medium">
+                  In stock only
+                </Label>
+                <Switch id="in-stock" checked={inStockOnly} onCheckedChange={setInStockOnly} />
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Rating</h4>
+                <RadioGroup
+                  value={minRating?.toString() ?? "any"}
+                  onValueChange={(value) => setMinRating(value === "any" ? null : Number(value))}
+                >
+                  {[4, 3, 2, 1].map((rating) => (
+                    <div key={rating} className="flex items-center gap-2">
+                      <RadioGroupItem value={rating.toString()} id={`rating-${rating}`} />
+                      <Label htmlFor={`rating-${rating}`} className="flex items-center gap-1 text-sm font-normal">
+                        {rating}
+                        <Star className="h-3 w-3 fill-amber-400 text-amber-400" />
+                        & up
+                      </Label>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="any" id="rating-any" />
+                    <Label htmlFor="rating-any" className="text-sm font-normal">Any rating</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              {facets && facets.vendors.length > 0 && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium">Vendor</h4>
+                  {facets.vendors.map((vendor) => (
+                    <div key={vendor.vendor_id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`vendor-${vendor.vendor_id}`}
+                        checked={vendorIds.includes(vendor.vendor_id)}
+                        onCheckedChange={(checked) => toggleVendor(vendor.vendor_id, checked === true)}
+                      />
+                      <Label htmlFor={`vendor-${vendor.vendor_id}`} className="text-sm font-normal flex-1">
+                        {vendor.business_name}
+                      </Label>
+                      <span className="text-xs text-muted-foreground">{vendor.product_count}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          </aside>
+
+          {/* Results */}
+          <section>
+            {loading ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-6">
+                {[...Array(8)].map((_, i) => (
+                  <Skeleton key={i} className="h-80" />
+                ))}
+              </div>
+            ) : products.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <PackageX className="h-16 w-16 mx-auto mb-4" />
+                <p>No products match these filters.</p>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-6">
+                  {products.map((product) => (
+                    <ProductCard
+                      key={product.id}
+                      id={product.id}
+                      name={product.name}
+                      price={product.price}
+                      imageUrl={product.image_url}
+                      stock={product.stock}
+                      rating={product.rating_count > 0 ? product.rating_average : undefined}
+                      reviews={product.rating_count}
+                    />
+                  ))}
+                </div>
+                {hasMore && (
+                  <div className="text-center mt-8">
+                    <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                      {loadingMore ? "Loading..." : "Load More"}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default CategoryPage;
@@ -0,0 +1,468 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import AddressForm from "@/components/AddressForm";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Banknote, CreditCard, MapPin, Phone, Plus, ShoppingCart } from "lucide-react";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { z } from "zod";
+import { useCart, type CartProduct } from "@/contexts/CartContext";
+import { formatAddress, type CustomerAddress } from "@/lib/addresses";
+import { paymentProviders, startPayment, type PaymentProvider } from "@/lib/payments";
+import { formatPrice } from "@/lib/utils";
+
+type PaymentChoice = PaymentProvider | "cash_on_delivery";
+
+const phoneSchema = z.string().trim().min(10, { message: "Invalid phone number" }).max(20);
+
+interface CheckoutLine {
+  product: CartProduct;
+  quantity: number;
+}
+
+interface StockShortage {
+  product_id: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+// place_order reports every short line at once, tagged with the "out_of_stock" hint
+const parseStockShortages = (error: PostgrestError): StockShortage[] | null => {
+  if (error.hint !== "out_of_stock" || !error.details) return null;
+  try {
+    return JSON.parse(error.details) as StockShortage[];
+  } catch {
+    return null;
+  }
+};
+
+const Checkout = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    items: cartItems,
+    loading: cartLoading,
+    refresh: refreshCart,
+    updateQuantity,
+    removeItem,
+  } = useCart();
+
+  // "Buy now" checks out a single product instead of the cart
+  const buyNowProductId = searchParams.get("product");
+  const buyNowQuantity = Math.max(parseInt(searchParams.get("quantity") || "1") || 1, 1);
+
+  const [buyNowProduct, setBuyNowProduct] = useState<CartProduct | null>(null);
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string>("");
+  const [showAddressForm, setShowAddressForm] = useState(false);
+  const [phone, setPhone] = useState("");
+  const [profilePhone, setProfilePhone] = useState<string | null>(null);
+  const [savePhone, setSavePhone] = useState(false);
+  const [paymentChoice, setPaymentChoice] = useState<PaymentChoice>("paystack");
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [placing, setPlacing] = useState(false);
+  // Latest stock per product as reported by a rejected place_order
+  const [shortages, setShortages] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    const loadCheckout = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return;
+        setUserId(session.user.id);
+
+        const [addressesResult, profileResult] = await Promise.all([
+          supabase
+            .from("customer_addresses")
+            .select("id, label, address_line, city, state, landmark, is_default")
+            .eq("customer_id", session.user.id)
+            .order("is_default", { ascending: false })
+            .order("created_at", { ascending: false }),
+          supabase.from("profiles").select("phone").eq("id", session.user.id).maybeSingle(),
+        ]);
+
+        if (addressesResult.error) throw addressesResult.error;
+
+        const loadedAddresses = addressesResult.data || [];
+        setAddresses(loadedAddresses);
+        setSelectedAddressId(loadedAddresses[0]?.id || "");
+        setShowAddressForm(loadedAddresses.length === 0);
+
+        const savedPhone = profileResult.data?.phone || session.user.user_metadata?.phone || "";
+        setProfilePhone(profileResult.data?.phone ?? null);
+        setPhone(savedPhone);
+
+        if (buyNowProductId) {
+          const { data, error } = await supabase
+            .from("products")
+            .select("id, vendor_id, name, price, image_url, stock")
+            .eq("id", buyNowProductId)
+            .maybeSingle();
+
+          if (error) throw error;
+          setBuyNowProduct(data);
+        }
+      } catch (error) {
+        toast.error("Failed to load checkout");
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCheckout();
+  }, [navigate, buyNowProductId]);
+
+  const lines = useMemo<CheckoutLine[]>(() => {
+    if (buyNowProductId) {
+      return buyNowProduct ? [{ product: buyNowProduct, quantity: buyNowQuantity }] : [];
+    }
+    return cartItems.map((item) => ({ product: item.product, quantity: item.quantity }));
+  }, [buyNowProductId, buyNowProduct, buyNowQuantity, cartItems]);
+
+  const subtotal = lines.reduce((sum, line) => sum + line.product.price * line.quantity, 0);
+  const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const vendorCount = new Set(lines.map((line) => line.product.vendor_id)).size;
+  const availableStock = (line: CheckoutLine) => shortages[line.product.id] ?? line.product.stock;
+  const stockProblems = lines.filter((line) => line.quantity > availableStock(line));
+
+  const handleAdjustQuantity = async (line: CheckoutLine) => {
+    const available = availableStock(line);
+
+    if (buyNowProductId) {
+      if (available <= 0) {
+        navigate(`/products/${line.product.id}`);
+        return;
+      }
+      setSearchParams({ product: line.product.id, quantity: String(available) }, { replace: true });
+    } else if (available <= 0) {
+      await removeItem(line.product.id);
+    } else if (!(await updateQuantity(line.product.id, available))) {
+      return;
+    }
+
+    setShortages((current) => {
+      const { [line.product.id]: _adjusted, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const handleAddressSaved = (address: CustomerAddress) => {
+    const others = address.is_default
+      ? addresses.map((existing) => ({ ...existing, is_default: false }))
+      : addresses;
+    setAddresses([address, ...others]);
+    setSelectedAddressId(address.id);
+    setShowAddressForm(false);
+  };
+
+  const handlePlaceOrder = async () => {
+    const phoneResult = phoneSchema.safeParse(phone);
+    if (!phoneResult.success) {
+      toast.error(phoneResult.error.errors[0].message);
+      return;
+    }
+
+    if (!selectedAddressId) {
+      toast.error("Please choose a delivery address");
+      return;
+    }
+
+    try {
+      setPlacing(true);
+
+      if (savePhone && userId && phoneResult.data !== profilePhone) {
+        const { error: profileError } = await supabase
+          .from("profiles")
+          .update({ phone: phoneResult.data })
+          .eq("id", userId);
+        if (profileError) console.error(profileError);
+      }
+
+      // The server recomputes prices and rejects the order if they differ from what is shown here
+      const { data: orderGroupId, error } = await supabase.rpc("place_order", {
+        _items: lines.map((line) => ({ product_id: line.product.id, quantity: line.quantity })),
+        _address_id: selectedAddressId,
+        _customer_phone: phoneResult.data,
+        _expected_total: subtotal,
+        _payment_method: paymentChoice === "cash_on_delivery" ? "cash_on_delivery" : "online",
+      });
+
+      if (error) {
+        const outOfStock = parseStockShortages(error);
+        if (outOfStock) {
+          setShortages((current) => ({
+            ...current,
+            ...Object.fromEntries(outOfStock.map((shortage) => [shortage.product_id, shortage.available])),
+          }));
+          toast.error(
+            outOfStock.length === 1
+              ? `"${outOfStock[0].name}" no longer has enough stock`
+              : `${outOfStock.length} items no longer have enough stock`
+          );
+          if (!buyNowProductId) refreshCart();
+          return;
+        }
+        throw error;
+      }
+
+      if (paymentChoice === "cash_on_delivery") {
+        toast.success("Order placed! Pay the rider when it arrives.");
+        await refreshCart();
+        navigate("/customer/dashboard");
+        return;
+      }
+
+      // The order stays unpaid, and hidden from riders, until the gateway confirms payment.
+      // Leaving for the gateway reloads the app, which picks up the emptied cart.
+      try {
+        await startPayment(orderGroupId, paymentChoice);
+      } catch (paymentError) {
+        toast.error(`Order placed, but we couldn't start payment: ${(paymentError as Error).message}`);
+        await refreshCart();
+        navigate("/customer/dashboard");
+      }
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to place order");
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  if (loading || (!buyNowProductId && cartLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (lines.length === 0) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-24 text-center">
+          <ShoppingCart className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-2xl font-bold mb-2">Nothing to check out</h2>
+          <p className="text-muted-foreground mb-6">Add some products to your cart first.</p>
+          <Button onClick={() => navigate("/")}>Continue Shopping</Button>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12">
+        <h2 className="text-3xl font-bold mb-8">Checkout</h2>
+
+        <div className="grid lg:grid-cols-[1fr_24rem] gap-8 items-start">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPin className="h-5 w-5" />
+                  Delivery Address
+                </CardTitle>
+                <CardDescription>Where should we deliver your order?</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {addresses.length > 0 && (
+                  <RadioGroup value={selectedAddressId} onValueChange={setSelectedAddressId}>
+                    {addresses.map((address) => (
+                      <Label
+                        key={address.id}
+                        htmlFor={`address-${address.id}`}
+                        className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer font-normal has-[:checked]:border-primary"
+                      >
+                        <RadioGroupItem value={address.id} id={`address-${address.id}`} className="mt-1" />
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{address.label}</span>
+                            {address.is_default && <Badge variant="secondary">Default</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">{formatAddress(address)}</p>
+                        </div>
+                      </Label>
+                    ))}
+                  </RadioGroup>
+                )}
+
+                {showAddressForm ? (
+                  <AddressForm
+                    onSaved={handleAddressSaved}
+                    onCancel={addresses.length > 0 ? () => setShowAddressForm(false) : undefined}
+                  />
+                ) : (
+                  <Button variant="outline" onClick={() => setShowAddressForm(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add New Address
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Phone className="h-5 w-5" />
+                  Contact Phone
+                </CardTitle>
+                <CardDescription>The rider will call this number on delivery</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Input
+                  type="tel"
+                  placeholder="+234 800 000 0000"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                />
+                {phone.trim() !== (profilePhone || "") && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="save-phone"
+                      checked={savePhone}
+                      onCheckedChange={(checked) => setSavePhone(checked === true)}
+                    />
+                    <Label htmlFor="save-phone" className="text-sm font-normal">
+                      Save this number to my profile
+                    </Label>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  Payment Method
+                </CardTitle>
+                <CardDescription>Pay online now, or in cash when your order arrives</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RadioGroup value={paymentChoice} onValueChange={(value) => setPaymentChoice(value as PaymentChoice)}>
+                  {paymentProviders.map((option) => (
+                    <Label
+                      key={option.id}
+                      htmlFor={`provider-${option.id}`}
+                      className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer font-normal has-[:checked]:border-primary"
+                    >
+                      <RadioGroupItem value={option.id} id={`provider-${option.id}`} className="mt-1" />
+                      <div className="space-y-1">
+                        <span className="font-medium">{option.name}</span>
+                        <p className="text-sm text-muted-foreground">{option.description}</p>
+                      </div>
+                    </Label>
+                  ))}
+                  <Label
+                    htmlFor="provider-cash_on_delivery"
+                    className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer font-normal has-[:checked]:border-primary"
+                  >
+                    <RadioGroupItem value="cash_on_delivery" id="provider-cash_on_delivery" className="mt-1" />
+                    <div className="space-y-1">
+                      <span className="font-medium flex items-center gap-2">
+                        <Banknote className="h-4 w-4" />
+                        Cash on Delivery
+                      </span>
+                      <p className="text-sm text-muted-foreground">
+                        Pay the rider in cash{vendorCount > 1 && ", per package,"} when your order arrives
+                      </p>
+                    </div>
+                  </Label>
+                </RadioGroup>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Order Summary</CardTitle>
+              <CardDescription>
+                {itemCount} {itemCount === 1 ? "item" : "items"}
+                {vendorCount > 1 && ` · ships in ${vendorCount} packages`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="space-y-2 text-sm">
+                {lines.map((line) => (
+                  <li key={line.product.id} className="flex justify-between gap-4">
+                    <span>
+                      {line.quantity} × {line.product.name}
+                      {line.quantity > availableStock(line) && (
+                        <span className="flex items-center gap-2 text-xs text-destructive">
+                          {availableStock(line) > 0
+                            ? `Only ${availableStock(line)} left in stock`
+                            : "Out of stock"}
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-xs"
+                            onClick={() => handleAdjustQuantity(line)}
+                          >
+                            {availableStock(line) > 0
+                              ? `Change to ${availableStock(line)}`
+                              : buyNowProductId
+                                ? "Back to product"
+                                : "Remove"}
+                          </Button>
+                        </span>
+                      )}
+                    </span>
+                    <span className="shrink-0">{formatPrice(line.product.price * line.quantity)}</span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="space-y-2 pt-4 border-t text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>{formatPrice(subtotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Delivery</span>
+                  <span>Free</span>
+                </div>
+                <div className="flex justify-between text-lg font-semibold pt-2 border-t">
+                  <span>Total</span>
+                  <span className="text-primary">{formatPrice(subtotal)}</span>
+                </div>
+              </div>
+
+              <Button
+                size="lg"
+                className="w-full bg-gradient-to-r from-primary to-amber-500 hover:opacity-90"
+                disabled={placing || stockProblems.length > 0 || !selectedAddressId}
+                onClick={handlePlaceOrder}
+              >
+                {placing
+                  ? "Placing Order..."
+                  : paymentChoice === "cash_on_delivery"
+                    ? `Place Order · ${formatPrice(subtotal)}`
+                    : `Pay ${formatPrice(subtotal)}`}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Checkout;
@@ -5,30 +5,63 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { ShoppingBag, LogOut, Package, MapPin, Phone, Clock, TrendingUp } from "lucide-react";
+import { ShoppingBag, Package, MapPin, Phone, Clock, TrendingUp, History, KeyRound, Camera } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import AccountMenu from "@/components/AccountMenu";
+import { startPayment } from "@/lib/payments";
+import { Coordinates } from "@/lib/geo";
+import { openDeliveryPhoto, type OrderStatus } from "@/lib/orders";
+import LiveTrackingMap from "@/components/orders/LiveTrackingMap";
+import OrderTimeline from "@/components/orders/OrderTimeline";
 
-interface Order {
+interface OrderItem {
   id: string;
   product_name: string;
   product_price: number;
   quantity: number;
+}
+
+interface Order {
+  id: string;
+  total_amount: number;
+  status: OrderStatus;
+  created_at: string;
+  rider_id: string | null;
+  pickup_latitude: number | null;
+  pickup_longitude: number | null;
+  dropoff_latitude: number | null;
+  dropoff_longitude: number | null;
+  delivery_photo_path: string | null;
+  order_delivery_codes: { code: string } | null;
+  order_items: OrderItem[];
+}
+
+// A single checkout; its orders are the per-vendor shipments
+interface OrderGroup {
+  id: string;
   total_amount: number;
   delivery_address: string;
   customer_phone: string;
-  status: "pending" | "accepted" | "in_transit" | "delivered" | "cancelled";
   created_at: string;
-  rider_id: string | null;
+  payment_method: "online" | "cash_on_delivery";
+  payment_status: "pending" | "paid" | "failed" | "refunded";
+  orders: Order[];
 }
 
+const ACTIVE_STATUSES: Order["status"][] = ["pending", "accepted", "picked_up", "in_transit"];
+
+const toCoordinates = (latitude: number | null, longitude: number | null): Coordinates | null =>
+  latitude !== null && longitude !== null ? { latitude, longitude } : null;
+
 const CustomerDashboard = () => {
   const navigate = useNavigate();
-  const [activeOrders, setActiveOrders] = useState<Order[]>([]);
-  const [orderHistory, setOrderHistory] = useState<Order[]>([]);
+  const [activeOrders, setActiveOrders] = useState<OrderGroup[]>([]);
+  const [orderHistory, setOrderHistory] = useState<OrderGroup[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    checkCustomerAndLoadOrders();
+    loadOrders();
     
     // Set up realtime subscription for order status updates
     const channel = supabase
@@ -52,51 +85,26 @@ const CustomerDashboard = () => {
     };
   }, []);
 
-  const checkCustomerAndLoadOrders = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      navigate("/auth");
-      return;
-    }
-
-    const { data: roleData } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", session.user.id)
-      .single();
-
-    if (roleData?.role !== "customer") {
-      toast.error("Access denied. Customer account required.");
-      navigate("/");
-      return;
-    }
-
-    loadOrders();
-  };
-
   const loadOrders = async () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) return;
 
-      // Get all orders for the customer
-      const { data: ordersData, error } = await supabase
-        .from("orders")
-        .select("*")
+      // Get all checkouts for the customer with their per-vendor orders
+      const { data: groupsData, error } = await supabase
+        .from("order_groups")
+        .select("*, orders (id, total_amount, status, created_at, rider_id, pickup_latitude, pickup_longitude, dropoff_latitude, dropoff_longitude, delivery_photo_path, order_delivery_codes (code), order_items (id, product_name, product_price, quantity))")
         .eq("customer_id", session.user.id)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
 
-      // Split into active and completed orders
-      const active = ordersData?.filter(
-        order => ['pending', 'accepted', 'in_transit'].includes(order.status)
-      ) || [];
-      
-      const history = ordersData?.filter(
-        order => ['delivered', 'cancelled'].includes(order.status)
-      ) || [];
+      // A checkout stays active until every one of its orders is finished
+      const isActive = (group: OrderGroup) =>
+        group.orders.some((order) => ACTIVE_STATUSES.includes(order.status));
+
+      const active = groupsData?.filter(isActive) || [];
+      const history = groupsData?.filter((group) => !isActive(group)) || [];
 
       setActiveOrders(active);
       setOrderHistory(history);
@@ -108,9 +116,32 @@ const CustomerDashboard = () => {
     }
   };
 
-  const handleSignOut = async () => {
-    await supabase.auth.signOut();
-    navigate("/auth");
+  const handleCancelOrder = async (orderId: string) => {
+    try {
+      const { error } = await supabase.rpc("cancel_order", { _order_id: orderId });
+      if (error) throw error;
+
+      toast.success("Order cancelled");
+      loadOrders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to cancel order");
+    }
+  };
+
+  const handleViewPhoto = async (path: string) => {
+    try {
+      await openDeliveryPhoto(path);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to open photo");
+    }
+  };
+
+  const handlePayNow = async (orderGroupId: string) => {
+    try {
+      await startPayment(orderGroupId);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to start payment");
+    }
   };
 
   const getStatusBadgeVariant = (status: string) => {
@@ -119,6 +150,8 @@ const CustomerDashboard = () => {
         return "secondary";
       case "accepted":
         return "default";
+      case "picked_up":
+        return "default";
       case "in_transit":
         return "default";
       case "delivered":
@@ -136,6 +169,8 @@ const CustomerDashboard = () => {
         return <Clock className="h-4 w-4" />;
       case "accepted":
         return <Package className="h-4 w-4" />;
+      case "picked_up":
+        return <Package className="h-4 w-4" />;
       case "in_transit":
         return <TrendingUp className="h-4 w-4" />;
       case "delivered":
@@ -151,6 +186,8 @@ const CustomerDashboard = () => {
         return "Waiting for a rider to accept your order";
       case "accepted":
         return "A rider has accepted your order and will pick it up soon";
+      case "picked_up":
+        return "Your rider has collected your order and is about to set off";
       case "in_transit":
         return "Your order is on the way!";
       case "delivered":
@@ -170,56 +207,137 @@ const CustomerDashboard = () => {
     );
   }
 
-  const OrderCard = ({ order, showTracking = false }: { order: Order; showTracking?: boolean }) => (
+  const OrderGroupCard = ({ group, showTracking = false }: { group: OrderGroup; showTracking?: boolean }) => (
     <Card>
       <CardHeader>
         <div className="flex justify-between items-start">
           <div className="flex-1">
-            <CardTitle className="text-lg">{order.product_name}</CardTitle>
+            <CardTitle className="text-lg">Order #{group.id.slice(0, 8).toUpperCase()}</CardTitle>
             <CardDescription className="flex items-center gap-1 mt-1">
               <Clock className="h-3 w-3" />
-              {new Date(order.created_at).toLocaleString()}
+              {new Date(group.created_at).toLocaleString()}
             </CardDescription>
           </div>
-          <Badge variant={getStatusBadgeVariant(order.status)} className="flex items-center gap-1">
-            {getStatusIcon(order.status)}
-            {order.status.replace("_", " ")}
-          </Badge>
+          <div className="flex gap-2">
+            {group.payment_method === "cash_on_delivery" ? (
+              <Badge variant="secondary">Pay on delivery</Badge>
+            ) : (
+              group.payment_status !== "paid" && <Badge variant="destructive">Awaiting payment</Badge>
+            )}
+            {group.orders.length > 1 && (
+              <Badge variant="outline">{group.orders.length} shipments</Badge>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
-        {showTracking && (
-          <div className="bg-muted/50 p-3 rounded-lg border">
-            <p className="text-sm font-medium mb-1">Delivery Status</p>
-            <p className="text-sm text-muted-foreground">{getStatusDescription(order.status)}</p>
-          </div>
-        )}
+        {group.orders.map((order, index) => (
+          <div key={order.id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex justify-between items-center">
+              <p className="text-sm font-medium">
+                {group.orders.length > 1 ? `Shipment ${index + 1}` : "Shipment"}
+              </p>
+              <Badge variant={getStatusBadgeVariant(order.status)} className="flex items-center gap-1">
+                {getStatusIcon(order.status)}
+                {order.status.replace("_", " ")}
+              </Badge>
+            </div>
 
-        <div className="grid grid-cols-2 gap-2 text-sm">
-          <div>
-            <span className="text-muted-foreground">Quantity:</span>
-            <p className="font-semibold">{order.quantity}</p>
-          </div>
-          <div>
-            <span className="text-muted-foreground">Total:</span>
-            <p className="font-semibold text-primary">₦{order.total_amount.toLocaleString()}</p>
+            {showTracking && (
+              <p className="text-sm text-muted-foreground bg-muted/50 p-2 rounded">
+                {group.payment_method === "online" && group.payment_status !== "paid" && order.status === "pending"
+                  ? "Complete payment within 30 minutes of ordering so we can assign a rider, or the order is cancelled"
+                  : getStatusDescription(order.status)}
+              </p>
+            )}
+
+            {showTracking &&
+              (order.status === "accepted" || order.status === "picked_up" || order.status === "in_transit") && (
+                <LiveTrackingMap
+                  orderId={order.id}
+                  status={order.status}
+                  pickup={toCoordinates(order.pickup_latitude, order.pickup_longitude)}
+                  dropoff={toCoordinates(order.dropoff_latitude, order.dropoff_longitude)}
+                />
+              )}
+
+            {showTracking && ACTIVE_STATUSES.includes(order.status) && order.status !== "pending" && order.order_delivery_codes && (
+              <div className="flex items-center justify-between rounded bg-primary/10 p-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <KeyRound className="h-4 w-4 text-primary" />
+                  <span>Give this code to your rider on delivery</span>
+                </div>
+                <span className="font-mono text-lg font-bold tracking-widest">{order.order_delivery_codes.code}</span>
+              </div>
+            )}
+
+            {order.status === "delivered" && order.delivery_photo_path && (
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleViewPhoto(order.delivery_photo_path)}>
+                <Camera className="h-3 w-3 mr-1" />
+                View delivery photo
+              </Button>
+            )}
+
+            {showTracking && order.status === "pending" && (
+              <Button variant="outline" size="sm" onClick={() => handleCancelOrder(order.id)}>
+                Cancel Shipment
+              </Button>
+            )}
+
+            <ul className="space-y-1 text-sm">
+              {order.order_items.map((item) => (
+                <li key={item.id} className="flex justify-between">
+                  <span>
+                    {item.quantity} × {item.product_name}
+                  </span>
+                  <span className="text-muted-foreground">
+                    ₦{(item.product_price * item.quantity).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <Collapsible>
+              <CollapsibleTrigger asChild>
+                <Button variant="link" size="sm" className="h-auto p-0">
+                  <History className="h-3 w-3 mr-1" />
+                  Status history
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pt-2">
+                <OrderTimeline orderId={order.id} status={order.status} />
+              </CollapsibleContent>
+            </Collapsible>
           </div>
+        ))}
+
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Total:</span>
+          <span className="font-semibold text-primary">₦{group.total_amount.toLocaleString()}</span>
         </div>
-        
+
+        {group.payment_method === "online" &&
+          group.payment_status !== "paid" &&
+          group.orders.some((order) => order.status === "pending") && (
+            <Button className="w-full" onClick={() => handlePayNow(group.id)}>
+              Pay ₦{group.total_amount.toLocaleString()} Now
+            </Button>
+          )}
+
         <div className="space-y-2 pt-2 border-t">
           <div className="flex items-start gap-2">
             <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
             <div>
               <p className="text-sm font-medium">Delivery Address</p>
-              <p className="text-sm text-muted-foreground">{order.delivery_address}</p>
+              <p className="text-sm text-muted-foreground">{group.delivery_address}</p>
             </div>
           </div>
-          
+
           <div className="flex items-center gap-2">
             <Phone className="h-4 w-4 text-muted-foreground" />
             <div>
               <p className="text-sm font-medium">Contact Phone</p>
-              <p className="text-sm text-muted-foreground">{order.customer_phone}</p>
+              <p className="text-sm text-muted-foreground">{group.customer_phone}</p>
             </div>
           </div>
         </div>
@@ -235,10 +353,7 @@ const CustomerDashboard = () => {
             <ShoppingBag className="h-6 w-6 text-primary" />
             <h1 className="text-2xl font-bold">My Orders</h1>
           </div>
-          <Button variant="ghost" onClick={handleSignOut}>
-            <LogOut className="h-4 w-4 mr-2" />
-            Sign Out
-          </Button>
+          <AccountMenu />
         </div>
       </header>
 
@@ -274,8 +389,8 @@ const CustomerDashboard = () => {
               </Card>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {activeOrders.map((order) => (
-                  <OrderCard key={order.id} order={order} showTracking={true} />
+                {activeOrders.map((group) => (
+                  <OrderGroupCard key={group.id} group={group} showTracking={true} />
                 ))}
               </div>
             )}
@@ -299,8 +414,8 @@ const CustomerDashboard = () => {
               </Card>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {orderHistory.map((order) => (
-                  <OrderCard key={order.id} order={order} />
+                {orderHistory.map((group) => (
+                  <OrderGroupCard key={group.id} group={group} />
                 ))}
               </div>
             )}
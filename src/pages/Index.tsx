@@ -1,70 +1,57 @@
-import { Smartphone, Shirt, Sparkles, Home, Dumbbell, ShoppingBag, Package } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Sparkles, Home, ShoppingBag, Package } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
 import Header from "@/components/Header";
 import Hero from "@/components/Hero";
 import CategoryCard from "@/components/CategoryCard";
 import ProductCard from "@/components/ProductCard";
 import Footer from "@/components/Footer";
+import { Skeleton } from "@/components/ui/skeleton";
+import { categories, formatItemCount, normalizeCategory } from "@/lib/categories";
+
+interface Product {
+  id: string;
+  name: string;
+  price: number;
+  image_url: string | null;
+  stock: number;
+}
 
 const Index = () => {
-  const categories = [
-    { icon: Smartphone, title: "Electronics", itemCount: "2,500+ items" },
-    { icon: Shirt, title: "Fashion", itemCount: "5,000+ items" },
-    { icon: Sparkles, title: "Beauty", itemCount: "1,200+ items" },
-    { icon: Package, title: "Groceries", itemCount: "3,800+ items" },
-    { icon: Home, title: "Home & Living", itemCount: "1,900+ items" },
-    { icon: Dumbbell, title: "Sports", itemCount: "800+ items" },
-  ];
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadCatalog = async () => {
+      try {
+        const [productsResult, countsResult] = await Promise.all([
+          supabase
+            .from("products")
+            .select("id, name, price, image_url, stock")
+            .order("created_at", { ascending: false })
+            .limit(12),
+          supabase.rpc("get_category_counts"),
+        ]);
+
+        if (productsResult.error) throw productsResult.error;
+        if (countsResult.error) throw countsResult.error;
 
-  const featuredProducts = [
-    {
-      image: "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?auto=format&fit=crop&w=400&q=80",
-      title: "Premium Wireless Headphones with Noise Cancellation",
-      price: "₦45,000",
-      originalPrice: "₦60,000",
-      rating: 5,
-      reviews: 234,
-      discount: "25%",
-    },
-    {
-      image: "https://images.unsplash.com/photo-1523275335684-37898b6baf30?auto=format&fit=crop&w=400&q=80",
-      title: "Classic Analog Watch - Premium Collection",
-      price: "₦28,500",
-      rating: 4,
-      reviews: 128,
-    },
-    {
-      image: "https://images.unsplash.com/photo-1572635196237-14b3f281503f?auto=format&fit=crop&w=400&q=80",
-      title: "Designer Sunglasses UV Protection",
-      price: "₦12,000",
-      originalPrice: "₦18,000",
-      rating: 5,
-      reviews: 89,
-      discount: "33%",
-    },
-    {
-      image: "https://images.unsplash.com/photo-1485955900006-10f4d324d411?auto=format&fit=crop&w=400&q=80",
-      title: "Professional DSLR Camera Kit",
-      price: "₦185,000",
-      rating: 5,
-      reviews: 412,
-    },
-    {
-      image: "https://images.unsplash.com/photo-1560343090-f0409e92791a?auto=format&fit=crop&w=400&q=80",
-      title: "Luxury Leather Sneakers",
-      price: "₦32,000",
-      originalPrice: "₦45,000",
-      rating: 4,
-      reviews: 156,
-      discount: "29%",
-    },
-    {
-      image: "https://images.unsplash.com/photo-1491553895911-0055eca6402d?auto=format&fit=crop&w=400&q=80",
-      title: "Wireless Running Earbuds",
-      price: "₦15,500",
-      rating: 4,
-      reviews: 267,
-    },
-  ];
+        setProducts(productsResult.data || []);
+        setCategoryCounts(
+          Object.fromEntries((countsResult.data || []).map((row) => [row.category, row.product_count]))
+        );
+      } catch (error) {
+        toast.error("Failed to load products");
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCatalog();
+  }, []);
 
   return (
     <div className="min-h-screen bg-background">
@@ -74,24 +61,49 @@ const Index = () => {
       {/* Categories Section */}
       <section className="container mx-auto px-4 py-12">
         <h2 className="text-3xl font-bold mb-8">Shop by Category</h2>
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-          {categories.map((category, index) => (
-            <CategoryCard key={index} {...category} />
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+          {categories.map((category) => (
+            <CategoryCard
+              key={category.slug}
+              slug={category.slug}
+              icon={category.icon}
+              title={category.title}
+              itemCount={formatItemCount(categoryCounts[normalizeCategory(category.title)] || 0)}
+            />
           ))}
         </div>
       </section>
 
-      {/* Flash Deals Section */}
+      {/* New Arrivals Section */}
       <section className="container mx-auto px-4 py-12">
         <div className="flex justify-between items-center mb-8">
-          <h2 className="text-3xl font-bold">Flash Deals</h2>
-          <a href="#" className="text-primary hover:underline">View All →</a>
-        </div>
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
-          {featuredProducts.map((product, index) => (
-            <ProductCard key={index} {...product} />
-          ))}
+          <h2 className="text-3xl font-bold">New Arrivals</h2>
         </div>
+        {loading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
+            {[...Array(6)].map((_, i) => (
+              <Skeleton key={i} className="h-80" />
+            ))}
+          </div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Package className="h-16 w-16 mx-auto mb-4" />
+            <p>No products available yet. Check back soon!</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
+            {products.map((product) => (
+              <ProductCard
+                key={product.id}
+                id={product.id}
+                name={product.name}
+                price={product.price}
+                imageUrl={product.image_url}
+                stock={product.stock}
+              />
+            ))}
+          </div>
+        )}
       </section>
 
       {/* Trust Badges */}
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { completeMockPayment } from "@/lib/payments";
+import { formatPrice } from "@/lib/utils";
+
+// Stand-in for a hosted payment page, reached only when the payments function runs the mock gateway
+const MockGateway = () => {
+  const [searchParams] = useSearchParams();
+  const reference = searchParams.get("reference") || "";
+  const amount = Number(searchParams.get("amount") || 0);
+  const callback = searchParams.get("callback") || "/checkout/complete";
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOutcome = async (outcome: "success" | "failed") => {
+    try {
+      setSubmitting(true);
+      await completeMockPayment(reference, outcome);
+
+      const returnUrl = new URL(callback, window.location.origin);
+      returnUrl.searchParams.set("reference", reference);
+      window.location.assign(returnUrl.toString());
+    } catch (error) {
+      toast.error((error as Error).message || "Mock payment failed");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/40 px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center space-y-2">
+          <Badge variant="outline" className="mx-auto">Test mode</Badge>
+          <CardTitle>Mock Payment Gateway</CardTitle>
+          <CardDescription>No money will be charged. Choose how this payment should end.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-center">
+            <p className="text-3xl font-bold">{formatPrice(amount)}</p>
+            <p className="text-xs text-muted-foreground break-all">{reference}</p>
+          </div>
+          <Button className="w-full" disabled={submitting || !reference} onClick={() => handleOutcome("success")}>
+            Pay {formatPrice(amount)}
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={submitting || !reference}
+            onClick={() => handleOutcome("failed")}
+          >
+            Decline Payment
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MockGateway;
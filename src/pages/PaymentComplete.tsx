@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Clock, Loader2, RotateCcw, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { startPayment, verifyPayment, type PaymentProvider, type PaymentStatus } from "@/lib/payments";
+
+// The webhook can land a few seconds after the customer is redirected back
+const VERIFY_ATTEMPTS = 5;
+const VERIFY_INTERVAL_MS = 3000;
+
+const PaymentComplete = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Paystack returns with ?reference=, Flutterwave with ?tx_ref=
+  const reference = searchParams.get("reference") || searchParams.get("tx_ref");
+
+  const [status, setStatus] = useState<PaymentStatus | "verifying">("verifying");
+  const [orderGroupId, setOrderGroupId] = useState<string | null>(null);
+  const [provider, setProvider] = useState<PaymentProvider | undefined>();
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => {
+    if (!reference) {
+      setStatus("failed");
+      return;
+    }
+
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const check = async (attempt: number) => {
+      try {
+        const result = await verifyPayment(reference);
+        if (cancelled) return;
+
+        setOrderGroupId(result.order_group_id);
+        if (result.provider !== "mock") setProvider(result.provider);
+        if (result.status === "pending" && attempt < VERIFY_ATTEMPTS) {
+          timeout = setTimeout(() => check(attempt + 1), VERIFY_INTERVAL_MS);
+          return;
+        }
+        setStatus(result.status);
+      } catch (error) {
+        if (cancelled) return;
+        toast.error((error as Error).message || "Failed to verify payment");
+        setStatus("failed");
+      }
+    };
+
+    check(1);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [reference]);
+
+  const handleRetry = async () => {
+    if (!orderGroupId) return;
+    try {
+      setRetrying(true);
+      await startPayment(orderGroupId, provider);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to start payment");
+      setRetrying(false);
+    }
+  };
+
+  const content = {
+    verifying: {
+      icon: <Loader2 className="h-12 w-12 text-primary animate-spin" />,
+      title: "Confirming your payment",
+      description: "This only takes a moment.",
+    },
+    paid: {
+      icon: <CheckCircle2 className="h-12 w-12 text-green-600" />,
+      title: "Payment successful",
+      description: "Your order is confirmed and will be assigned to a rider shortly.",
+    },
+    pending: {
+      icon: <Clock className="h-12 w-12 text-amber-500" />,
+      title: "Payment still processing",
+      description: "We haven't heard back from the payment provider yet. Your order will update automatically.",
+    },
+    failed: {
+      icon: <XCircle className="h-12 w-12 text-destructive" />,
+      title: "Payment failed",
+      description: "Your order is saved but unpaid. You can try paying again.",
+    },
+    refunded: {
+      icon: <RotateCcw className="h-12 w-12 text-amber-500" />,
+      title: "Payment refunded",
+      description: "This payment couldn't be applied to your order, usually because it was already paid, so we've refunded it.",
+    },
+  }[status];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-24 flex justify-center">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader className="items-center space-y-4">
+            {content.icon}
+            <CardTitle>{content.title}</CardTitle>
+            <CardDescription>{content.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2">
+            {status === "failed" && orderGroupId && (
+              <Button onClick={handleRetry} disabled={retrying}>
+                {retrying ? "Redirecting..." : "Try Again"}
+              </Button>
+            )}
+            {status !== "verifying" && (
+              <Button variant="outline" onClick={() => navigate("/customer/dashboard")}>
+                View My Orders
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default PaymentComplete;
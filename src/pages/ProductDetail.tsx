@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import ProductCard from "@/components/ProductCard";
+import QuantitySelector from "@/components/QuantitySelector";
+import { useCart } from "@/contexts/CartContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { PackageX, Store } from "lucide-react";
+import { formatPrice } from "@/lib/utils";
+
+interface Product {
+  id: string;
+  vendor_id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  image_url: string | null;
+  stock: number;
+  category: string | null;
+}
+
+// Postgres "invalid_text_representation", raised when the id is not a valid uuid
+const INVALID_UUID_CODE = "22P02";
+
+const ProductDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { addItem } = useCart();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [vendor, setVendor] = useState<{ name: string; slug: string } | null>(null);
+  const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
+  const [quantity, setQuantity] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadProduct = async () => {
+      // Clear the previous product so a related-product click never shows stale details
+      setLoading(true);
+      setProduct(null);
+      setVendor(null);
+      setRelatedProducts([]);
+      setQuantity(1);
+
+      try {
+        const { data, error } = await supabase
+          .from("products")
+          .select("id, vendor_id, name, description, price, image_url, stock, category")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error && error.code !== INVALID_UUID_CODE) throw error;
+        setProduct(data);
+        if (!data) return;
+
+        const [vendorResult, relatedResult] = await Promise.all([
+          supabase.rpc("get_vendor_public_profile", { _vendor_id: data.vendor_id }),
+          data.category
+            ? supabase
+                .from("products")
+                .select("id, vendor_id, name, description, price, image_url, stock, category")
+                .eq("category", data.category)
+                .neq("id", data.id)
+                .order("created_at", { ascending: false })
+                .limit(6)
+            : Promise.resolve({ data: [], error: null }),
+        ]);
+
+        if (vendorResult.error) throw vendorResult.error;
+        if (relatedResult.error) throw relatedResult.error;
+
+        const vendorProfile = vendorResult.data?.[0];
+        setVendor(vendorProfile ? { name: vendorProfile.business_name, slug: vendorProfile.slug } : null);
+        setRelatedProducts(relatedResult.data || []);
+      } catch (error) {
+        toast.error("Failed to load product");
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProduct();
+  }, [id]);
+
+  const handleOrderNow = () => {
+    if (!product) return;
+    navigate(`/checkout?product=${product.id}&quantity=${quantity}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-12 grid md:grid-cols-2 gap-8">
+          <Skeleton className="h-96" />
+          <div className="space-y-4">
+            <Skeleton className="h-10 w-3/4" />
+            <Skeleton className="h-6 w-1/3" />
+            <Skeleton className="h-32" />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-24 text-center">
+          <PackageX className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-2xl font-bold mb-2">Product not found</h2>
+          <p className="text-muted-foreground mb-6">
+            This product may have been removed or the link is incorrect.
+          </p>
+          <Button onClick={() => navigate("/")}>Continue Shopping</Button>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const outOfStock = product.stock <= 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="grid md:grid-cols-2 gap-8">
+          <img
+            src={product.image_url || "/placeholder.svg"}
+            alt={product.name}
+            className="w-full max-h-[32rem] object-cover rounded-lg border"
+          />
+
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {product.category && <Badge variant="secondary">{product.category}</Badge>}
+              <h1 className="text-3xl font-bold">{product.name}</h1>
+              {vendor && (
+                <p className="flex items-center gap-2 text-muted-foreground">
+                  <Store className="h-4 w-4" />
+                  Sold by
+                  <Link to={`/store/${vendor.slug}`} className="text-primary hover:underline">
+                    {vendor.name}
+                  </Link>
+                </p>
+              )}
+            </div>
+
+            <p className="text-3xl font-bold text-primary">{formatPrice(product.price)}</p>
+
+            <p className={outOfStock ? "text-destructive font-medium" : "text-sm text-muted-foreground"}>
+              {outOfStock ? "Out of stock" : `${product.stock} units in stock`}
+            </p>
+
+            <div className="space-y-2">
+              <h2 className="font-semibold">Description</h2>
+              <p className="text-muted-foreground whitespace-pre-line">
+                {product.description || "No description"}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-4 pt-4 border-t">
+              <span className="text-sm font-medium">Quantity</span>
+              <QuantitySelector
+                value={quantity}
+                max={product.stock}
+                onChange={setQuantity}
+                disabled={outOfStock}
+              />
+            </div>
+            <div className="flex gap-4">
+              <Button
+                size="lg"
+                variant="outline"
+                className="flex-1"
+                disabled={outOfStock}
+                onClick={() => addItem(product.id, quantity)}
+              >
+                Add to Cart
+              </Button>
+              <Button
+                size="lg"
+                className="flex-1 bg-gradient-to-r from-primary to-amber-500 hover:opacity-90"
+                disabled={outOfStock}
+                onClick={handleOrderNow}
+              >
+                {outOfStock ? "Out of Stock" : `Order Now · ${formatPrice(product.price * quantity)}`}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {relatedProducts.length > 0 && (
+          <section className="pt-16">
+            <div className="flex justify-between items-center mb-8">
+              <h2 className="text-2xl font-bold">Related Products</h2>
+              <Link to="/" className="text-primary hover:underline">Continue Shopping →</Link>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
+              {relatedProducts.map((related) => (
+                <ProductCard
+                  key={related.id}
+                  id={related.id}
+                  name={related.name}
+                  price={related.price}
+                  imageUrl={related.image_url}
+                  stock={related.stock}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ProductDetail;
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { z } from "zod";
+import { CheckInbox } from "@/components/auth/CheckInbox";
+import { authRedirectUrl, PASSWORD_UPDATE_PATH } from "@/lib/auth";
+
+const emailSchema = z.string().trim().email({ message: "Invalid email address" });
+
+const ResetPassword = () => {
+  const [email, setEmail] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const sendResetLink = async (address: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(address, {
+      redirectTo: authRedirectUrl(PASSWORD_UPDATE_PATH),
+    });
+    if (error) throw error;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = emailSchema.safeParse(email);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await sendResetLink(result.data);
+      // Shown whether or not the address has an account, so this can't be used to look accounts up
+      setSentTo(result.data);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to send reset link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">Reset your password</CardTitle>
+          <CardDescription>We'll email you a link to choose a new one</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentTo ? (
+            <CheckInbox
+              email={sentTo}
+              purpose="reset your password"
+              onResend={() => sendResetLink(sentTo)}
+              onBack={() => setSentTo(null)}
+            />
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reset-email">Email</Label>
+                <Input
+                  id="reset-email"
+                  type="email"
+                  placeholder="your@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Sending..." : "Send Reset Link"}
+              </Button>
+              <p className="text-center text-sm text-muted-foreground">
+                Remembered it?{" "}
+                <Link to="/auth" className="text-primary hover:underline">
+                  Back to sign in
+                </Link>
+              </p>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -1,34 +1,77 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { Bike, LogOut, Package, MapPin, Phone, Clock } from "lucide-react";
+import { Bike, Package, MapPin, Phone, Clock, Banknote, ShieldAlert, History } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-
-interface Order {
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import AccountMenu from "@/components/AccountMenu";
+import RiderProfile from "@/components/rider/RiderProfile";
+import AvailabilityToggle from "@/components/rider/AvailabilityToggle";
+import OfferCountdown from "@/components/rider/OfferCountdown";
+import ConfirmDeliveryDialog from "@/components/rider/ConfirmDeliveryDialog";
+import OrderTimeline from "@/components/orders/OrderTimeline";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDeliveryLocationSharing } from "@/hooks/use-delivery-location-sharing";
+import { verificationLabels, type RiderVerificationStatus } from "@/lib/riders";
+import { formatDistance } from "@/lib/geo";
+import type { OrderStatus } from "@/lib/orders";
+
+interface OrderItem {
   id: string;
   product_name: string;
   product_price: number;
   quantity: number;
+}
+
+interface Order {
+  id: string;
+  items: OrderItem[];
   total_amount: number;
   delivery_address: string;
   customer_phone: string;
-  status: "pending" | "accepted" | "in_transit" | "delivered" | "cancelled";
+  status: OrderStatus;
   created_at: string;
   rider_id: string | null;
+  // Cash to collect at the door; 0 when the customer paid online
+  cash_due: number;
+  cash_collected_at?: string | null;
+  // Set on orders offered to this rider by dispatch
+  offer_expires_at?: string | null;
+  pickup_distance_km?: number | null;
+  delivery_distance_km?: number | null;
 }
 
 const RiderDashboard = () => {
-  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState("available");
+  const [verificationStatus, setVerificationStatus] = useState<RiderVerificationStatus | null>(null);
   const [availableOrders, setAvailableOrders] = useState<Order[]>([]);
   const [myOrders, setMyOrders] = useState<Order[]>([]);
+  const [cashOnHand, setCashOnHand] = useState({ amount: 0, orders: 0 });
   const [loading, setLoading] = useState(true);
 
+  const userId = user?.id;
+
+  // Customers follow these deliveries on a live map
+  useDeliveryLocationSharing(userId, myOrders.map((order) => order.id));
+
   useEffect(() => {
-    checkRiderAndLoadOrders();
+    if (!userId) return;
+    loadOrders();
     
     // Set up realtime subscription for new orders
     const channel = supabase
@@ -44,35 +87,24 @@ const RiderDashboard = () => {
           loadOrders();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'dispatch_offers',
+          filter: `rider_id=eq.${userId}`
+        },
+        () => {
+          loadOrders();
+        }
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
-
-  const checkRiderAndLoadOrders = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      navigate("/auth");
-      return;
-    }
-
-    const { data: roleData } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", session.user.id)
-      .single();
-
-    if (roleData?.role !== "rider") {
-      toast.error("Access denied. Rider account required.");
-      navigate("/");
-      return;
-    }
-
-    loadOrders();
-  };
+  }, [userId]);
 
   const loadOrders = async () => {
     try {
@@ -88,15 +120,40 @@ const RiderDashboard = () => {
       // Get rider's accepted orders with full details
       const { data: myOrdersData, error: myOrdersError } = await supabase
         .from("orders")
-        .select("*")
+        .select("*, order_items (id, product_name, product_price, quantity)")
         .eq("rider_id", session.user.id)
-        .in("status", ["accepted", "in_transit"])
+        .in("status", ["accepted", "picked_up", "in_transit"])
         .order("created_at", { ascending: false });
 
       if (myOrdersError) throw myOrdersError;
 
-      setAvailableOrders(pendingData || []);
-      setMyOrders(myOrdersData || []);
+      // Cash collected that the vendors haven't confirmed receiving yet
+      const { data: ledgerData, error: ledgerError } = await supabase
+        .from("rider_cash_ledger")
+        .select("amount")
+        .eq("rider_id", session.user.id)
+        .is("remitted_at", null);
+
+      if (ledgerError) throw ledgerError;
+
+      const { data: riderData, error: riderError } = await supabase
+        .from("rider_profiles")
+        .select("verification_status")
+        .eq("user_id", session.user.id)
+        .maybeSingle();
+
+      if (riderError) throw riderError;
+      setVerificationStatus(riderData?.verification_status ?? null);
+
+      setCashOnHand({
+        amount: (ledgerData || []).reduce((sum, entry) => sum + entry.amount, 0),
+        orders: ledgerData?.length || 0,
+      });
+
+      setAvailableOrders(
+        (pendingData || []).map((order) => ({ ...order, items: order.items as unknown as OrderItem[] }))
+      );
+      setMyOrders((myOrdersData || []).map((order) => ({ ...order, items: order.order_items })));
     } catch (error: any) {
       toast.error("Failed to load orders");
       console.error(error);
@@ -107,17 +164,7 @@ const RiderDashboard = () => {
 
   const handleAcceptOrder = async (orderId: string) => {
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) throw new Error("Not authenticated");
-
-      const { error } = await supabase
-        .from("orders")
-        .update({ 
-          rider_id: session.user.id,
-          status: "accepted"
-        })
-        .eq("id", orderId)
-        .is("rider_id", null);
+      const { error } = await supabase.rpc("accept_order_offer", { _order_id: orderId });
 
       if (error) throw error;
 
@@ -128,25 +175,52 @@ const RiderDashboard = () => {
     }
   };
 
-  const handleUpdateStatus = async (orderId: string, newStatus: "in_transit" | "delivered") => {
+  const handleDeclineOrder = async (orderId: string) => {
     try {
-      const { error } = await supabase
+      const { error } = await supabase.rpc("decline_order_offer", { _order_id: orderId });
+
+      if (error) throw error;
+
+      toast.success("Offer declined");
+      loadOrders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to decline offer");
+    }
+  };
+
+  const handleUpdateStatus = async (orderId: string, newStatus: "picked_up" | "in_transit") => {
+    try {
+      const { data, error } = await supabase
         .from("orders")
         .update({ status: newStatus })
-        .eq("id", orderId);
+        .eq("id", orderId)
+        .select("id");
 
       if (error) throw error;
+      if (!data || data.length === 0) throw new Error("This order is no longer assigned to you");
 
       toast.success(`Order status updated to ${newStatus.replace("_", " ")}`);
       loadOrders();
-    } catch (error: any) {
-      toast.error("Failed to update order status");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update order status");
+      loadOrders();
     }
   };
 
-  const handleSignOut = async () => {
-    await supabase.auth.signOut();
-    navigate("/auth");
+  const handleConfirmCash = async (order: Order) => {
+    try {
+      const { error } = await supabase.rpc("confirm_cash_collection", {
+        _order_id: order.id,
+        _amount: order.cash_due,
+      });
+
+      if (error) throw error;
+
+      toast.success(`₦${order.cash_due.toLocaleString()} collection confirmed`);
+      loadOrders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to confirm cash collection");
+    }
   };
 
   const getStatusBadgeVariant = (status: string) => {
@@ -155,6 +229,8 @@ const RiderDashboard = () => {
         return "secondary";
       case "accepted":
         return "default";
+      case "picked_up":
+        return "default";
       case "in_transit":
         return "default";
       case "delivered":
@@ -164,6 +240,11 @@ const RiderDashboard = () => {
     }
   };
 
+  const getOrderTitle = (order: Order) => {
+    if (order.items.length === 1) return order.items[0].product_name;
+    return `${order.items.reduce((sum, item) => sum + item.quantity, 0)} items`;
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -177,28 +258,54 @@ const RiderDashboard = () => {
       <CardHeader>
         <div className="flex justify-between items-start">
           <div>
-            <CardTitle className="text-lg">{order.product_name}</CardTitle>
+            <CardTitle className="text-lg">{getOrderTitle(order)}</CardTitle>
             <CardDescription className="flex items-center gap-1 mt-1">
               <Clock className="h-3 w-3" />
               {new Date(order.created_at).toLocaleString()}
             </CardDescription>
           </div>
-          <Badge variant={getStatusBadgeVariant(order.status)}>
-            {order.status.replace("_", " ")}
-          </Badge>
+          <div className="flex flex-col items-end gap-1">
+            <Badge variant={getStatusBadgeVariant(order.status)}>
+              {order.status.replace("_", " ")}
+            </Badge>
+            {order.cash_due > 0 && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Banknote className="h-3 w-3" />
+                Cash ₦{order.cash_due.toLocaleString()}
+              </Badge>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
-        <div className="grid grid-cols-2 gap-2 text-sm">
-          <div>
-            <span className="text-muted-foreground">Quantity:</span>
-            <p className="font-semibold">{order.quantity}</p>
-          </div>
-          <div>
-            <span className="text-muted-foreground">Total:</span>
-            <p className="font-semibold text-primary">₦{order.total_amount.toLocaleString()}</p>
-          </div>
+        <ul className="space-y-1 text-sm">
+          {order.items.map((item) => (
+            <li key={item.id} className="flex justify-between">
+              <span>
+                {item.quantity} × {item.product_name}
+              </span>
+              <span className="text-muted-foreground">
+                ₦{(item.product_price * item.quantity).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-between text-sm pt-2 border-t">
+          <span className="text-muted-foreground">Total:</span>
+          <span className="font-semibold text-primary">₦{order.total_amount.toLocaleString()}</span>
         </div>
+
+        {order.status === "pending" && (order.pickup_distance_km != null || order.offer_expires_at) && (
+          <div className="flex flex-wrap justify-between gap-2 text-sm text-muted-foreground">
+            {order.pickup_distance_km != null && (
+              <span>
+                {formatDistance(order.pickup_distance_km)} to pickup
+                {order.delivery_distance_km != null && ` · ${formatDistance(order.delivery_distance_km)} trip`}
+              </span>
+            )}
+            {order.offer_expires_at && <OfferCountdown key={order.offer_expires_at} expiresAt={order.offer_expires_at} />}
+          </div>
+        )}
         
         <div className="space-y-2 pt-2 border-t">
           <div className="flex items-start gap-2">
@@ -218,33 +325,84 @@ const RiderDashboard = () => {
           </div>
         </div>
 
+        {order.status !== "pending" && (
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <Button variant="link" size="sm" className="h-auto p-0">
+                <History className="h-3 w-3 mr-1" />
+                Status history
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+              <OrderTimeline orderId={order.id} status={order.status} />
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
         {showActions && (
           <div className="space-y-2 pt-3">
             {order.status === "pending" && !order.rider_id && (
               <Button 
                 className="w-full" 
+                disabled={verificationStatus !== "verified"}
                 onClick={() => handleAcceptOrder(order.id)}
               >
                 Accept Delivery
               </Button>
             )}
+            {order.status === "pending" && order.offer_expires_at && (
+              <Button
+                className="w-full"
+                variant="outline"
+                onClick={() => handleDeclineOrder(order.id)}
+              >
+                Decline
+              </Button>
+            )}
             {order.status === "accepted" && (
               <Button 
                 className="w-full" 
-                onClick={() => handleUpdateStatus(order.id, "in_transit")}
+                onClick={() => handleUpdateStatus(order.id, "picked_up")}
               >
-                Start Delivery
+                Confirm Pickup
               </Button>
             )}
-            {order.status === "in_transit" && (
+            {order.status === "picked_up" && (
               <Button 
                 className="w-full" 
-                variant="default"
-                onClick={() => handleUpdateStatus(order.id, "delivered")}
+                onClick={() => handleUpdateStatus(order.id, "in_transit")}
               >
-                Mark as Delivered
+                Start Delivery
               </Button>
             )}
+            {order.status === "in_transit" && order.cash_due > 0 && !order.cash_collected_at && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button className="w-full">
+                    <Banknote className="h-4 w-4 mr-2" />
+                    Collected ₦{order.cash_due.toLocaleString()}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Confirm cash collected</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Confirm you received ₦{order.cash_due.toLocaleString()} in cash from the customer.
+                      You'll owe this amount to the vendor until they confirm your remittance.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Not yet</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => handleConfirmCash(order)}>
+                      I've collected ₦{order.cash_due.toLocaleString()}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+            {order.status === "in_transit" && (order.cash_due === 0 || order.cash_collected_at) && userId && (
+              <ConfirmDeliveryDialog riderId={userId} orderId={order.id} onDelivered={loadOrders} />
+            )}
           </div>
         )}
       </CardContent>
@@ -259,37 +417,71 @@ const RiderDashboard = () => {
             <Bike className="h-6 w-6 text-primary" />
             <h1 className="text-2xl font-bold">Rider Dashboard</h1>
           </div>
-          <Button variant="ghost" onClick={handleSignOut}>
-            <LogOut className="h-4 w-4 mr-2" />
-            Sign Out
-          </Button>
+          <AccountMenu />
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        <Tabs defaultValue="available" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-6">
+        {cashOnHand.orders > 0 && (
+          <Card className="mb-6">
+            <CardContent className="flex items-center gap-4 py-4">
+              <Banknote className="h-8 w-8 text-primary" />
+              <div>
+                <p className="font-semibold">₦{cashOnHand.amount.toLocaleString()} cash to remit</p>
+                <p className="text-sm text-muted-foreground">
+                  Collected on {cashOnHand.orders} {cashOnHand.orders === 1 ? "delivery" : "deliveries"}; hand it to
+                  the vendors so they can confirm receipt
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {verificationStatus === "verified" && user && <AvailabilityToggle userId={user.id} />}
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-3 mb-6">
             <TabsTrigger value="available">
               Available Orders ({availableOrders.length})
             </TabsTrigger>
             <TabsTrigger value="my-orders">
               My Deliveries ({myOrders.length})
             </TabsTrigger>
+            <TabsTrigger value="profile">Profile</TabsTrigger>
           </TabsList>
 
           <TabsContent value="available">
             <div className="mb-4">
               <h2 className="text-2xl font-bold">Available Orders</h2>
-              <p className="text-muted-foreground">Accept orders to start delivering</p>
+              <p className="text-muted-foreground">Orders offered to you by distance, plus any nobody nearby took</p>
             </div>
 
+            {verificationStatus !== "verified" && (
+              <Card className="mb-4">
+                <CardContent className="flex flex-col sm:flex-row sm:items-center gap-4 py-4">
+                  <ShieldAlert className="h-8 w-8 text-primary shrink-0" />
+                  <div className="flex-1">
+                    <p className="font-semibold">
+                      Verification: {verificationStatus ? verificationLabels[verificationStatus] : "Not verified"}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      You can accept orders once we've checked your licence and vehicle documents
+                    </p>
+                  </div>
+                  <Button variant="outline" onClick={() => setActiveTab("profile")}>
+                    {verificationStatus === "pending" ? "View Profile" : "Upload Documents"}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
             {availableOrders.length === 0 ? (
               <Card className="text-center py-12">
                 <CardContent>
                   <Package className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
                   <h3 className="text-xl font-semibold mb-2">No available orders</h3>
                   <p className="text-muted-foreground">
-                    Check back soon for new delivery opportunities
+                    Stay on duty and nearby orders will be offered to you here
                   </p>
                 </CardContent>
               </Card>
@@ -305,7 +497,11 @@ const RiderDashboard = () => {
           <TabsContent value="my-orders">
             <div className="mb-4">
               <h2 className="text-2xl font-bold">My Deliveries</h2>
-              <p className="text-muted-foreground">Orders you're currently delivering</p>
+              <p className="text-muted-foreground">
+                {myOrders.length > 0
+                  ? "Orders you're currently delivering. Customers can follow your location until each one is delivered."
+                  : "Orders you're currently delivering"}
+              </p>
             </div>
 
             {myOrders.length === 0 ? (
@@ -326,6 +522,15 @@ const RiderDashboard = () => {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="profile">
+            <div className="mb-4">
+              <h2 className="text-2xl font-bold">Rider Profile</h2>
+              <p className="text-muted-foreground">Your vehicle and the documents we verify</p>
+            </div>
+
+            {user && <RiderProfile userId={user.id} onStatusChange={setVerificationStatus} />}
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import ProductCard from "@/components/ProductCard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { SearchX } from "lucide-react";
+
+const PAGE_SIZE = 24;
+
+interface SearchResult {
+  id: string;
+  name: string;
+  price: number;
+  image_url: string | null;
+  stock: number;
+}
+
+const Search = () => {
+  const [searchParams] = useSearchParams();
+  const query = (searchParams.get("q") || "").trim();
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    if (!query) {
+      setResults([]);
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .rpc("search_products", { _query: query, _limit: PAGE_SIZE, _offset: 0 })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          toast.error("Search failed");
+          console.error(error);
+        } else {
+          setResults(data || []);
+          setHasMore((data || []).length === PAGE_SIZE);
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const { data, error } = await supabase.rpc("search_products", {
+        _query: query,
+        _limit: PAGE_SIZE,
+        _offset: results.length,
+      });
+
+      if (error) throw error;
+      setResults([...results, ...(data || [])]);
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error) {
+      toast.error("Failed to load more results");
+      console.error(error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12">
+        <h2 className="text-3xl font-bold mb-8">
+          {query ? <>Results for "{query}"</> : "Search"}
+        </h2>
+
+        {loading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
+            {[...Array(6)].map((_, i) => (
+              <Skeleton key={i} className="h-80" />
+            ))}
+          </div>
+        ) : results.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <SearchX className="h-16 w-16 mx-auto mb-4" />
+            <p>
+              {query
+                ? "No products matched your search. Try different or fewer keywords."
+                : "Type something in the search bar to find products."}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
+              {results.map((product) => (
+                <ProductCard
+                  key={product.id}
+                  id={product.id}
+                  name={product.name}
+                  price={product.price}
+                  imageUrl={product.image_url}
+                  stock={product.stock}
+                  highlight={query}
+                />
+              ))}
+            </div>
+            {hasMore && (
+              <div className="text-center mt-8">
+                <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore ? "Loading..." : "Load More"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Search;
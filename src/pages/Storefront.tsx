@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import ProductCard from "@/components/ProductCard";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { CheckCircle2, Clock, Package, Star, Store } from "lucide-react";
+
+interface StorefrontVendor {
+  user_id: string;
+  slug: string;
+  business_name: string;
+  business_description: string | null;
+  logo_url: string | null;
+  banner_url: string | null;
+  member_since: string;
+  product_count: number;
+  rating_average: number;
+  rating_count: number;
+  orders_delivered: number;
+  fulfilment_rate: number | null;
+  average_delivery_minutes: number | null;
+}
+
+interface StorefrontProduct {
+  id: string;
+  name: string;
+  price: number;
+  image_url: string | null;
+  stock: number;
+  rating_average: number;
+  rating_count: number;
+}
+
+const formatDuration = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return remainder ? `${hours} hr ${remainder} min` : `${hours} hr`;
+};
+
+const Storefront = () => {
+  const { vendorSlug } = useParams<{ vendorSlug: string }>();
+  const navigate = useNavigate();
+  const [vendor, setVendor] = useState<StorefrontVendor | null>(null);
+  const [products, setProducts] = useState<StorefrontProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadStorefront = async () => {
+      if (!vendorSlug) return;
+      setLoading(true);
+
+      try {
+        const { data, error } = await supabase.rpc("get_vendor_storefront", { _slug: vendorSlug });
+        if (error) throw error;
+
+        const storefront = data?.[0] ?? null;
+        setVendor(storefront);
+        if (!storefront) return;
+
+        const { data: productData, error: productError } = await supabase
+          .from("products")
+          .select("id, name, price, image_url, stock, rating_average, rating_count")
+          .eq("vendor_id", storefront.user_id)
+          .order("created_at", { ascending: false });
+
+        if (productError) throw productError;
+        setProducts(productData || []);
+      } catch (error) {
+        toast.error("Failed to load store");
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadStorefront();
+  }, [vendorSlug]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <Skeleton className="h-48 w-full rounded-none" />
+        <main className="container mx-auto px-4 py-8 space-y-4">
+          <Skeleton className="h-10 w-1/3" />
+          <Skeleton className="h-6 w-1/2" />
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 pt-6">
+            {Array.from({ length: 4 }).map((_, index) => (
+              <Skeleton key={index} className="h-72" />
+            ))}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!vendor) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-24 text-center">
+          <Store className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-2xl font-bold mb-2">Store not found</h2>
+          <p className="text-muted-foreground mb-6">
+            This store may have closed or changed its name.
+          </p>
+          <Button onClick={() => navigate("/")}>Continue Shopping</Button>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const metrics = [
+    {
+      icon: Star,
+      label: "Rating",
+      value: vendor.rating_count > 0 ? `${vendor.rating_average.toFixed(1)} (${vendor.rating_count})` : "No reviews yet",
+    },
+    {
+      icon: CheckCircle2,
+      label: "Orders fulfilled",
+      value:
+        vendor.fulfilment_rate !== null
+          ? `${Math.round(vendor.fulfilment_rate * 100)}% · ${vendor.orders_delivered} delivered`
+          : "New store",
+    },
+    {
+      icon: Clock,
+      label: "Typical delivery",
+      value: vendor.average_delivery_minutes !== null ? formatDuration(vendor.average_delivery_minutes) : "—",
+    },
+    {
+      icon: Package,
+      label: "Products",
+      value: vendor.product_count.toString(),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="h-48 bg-gradient-to-r from-primary/20 to-amber-500/20">
+        {vendor.banner_url && <img src={vendor.banner_url} alt="" className="h-full w-full object-cover" />}
+      </div>
+
+      <main className="container mx-auto px-4 pb-12">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4 -mt-12">
+          <Avatar className="h-24 w-24 border-4 border-background">
+            {vendor.logo_url && <AvatarImage src={vendor.logo_url} alt={vendor.business_name} />}
+            <AvatarFallback>
+              <Store className="h-10 w-10 text-muted-foreground" />
+            </AvatarFallback>
+          </Avatar>
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold">{vendor.business_name}</h1>
+            <p className="text-sm text-muted-foreground">
+              Selling on Jiffy NG since{" "}
+              {new Date(vendor.member_since).toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+            </p>
+          </div>
+        </div>
+
+        {vendor.business_description && (
+          <p className="mt-6 max-w-3xl text-muted-foreground whitespace-pre-line">{vendor.business_description}</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-8">
+          {metrics.map((metric) => (
+            <Card key={metric.label}>
+              <CardContent className="p-4 flex items-center gap-3">
+                <metric.icon className="h-5 w-5 text-primary shrink-0" />
+                <div>
+                  <p className="text-xs text-muted-foreground">{metric.label}</p>
+                  <p className="font-semibold">{metric.value}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <section className="pt-12">
+          <h2 className="text-2xl font-bold mb-6">Products</h2>
+          {products.length === 0 ? (
+            <p className="text-muted-foreground">This store hasn't listed any products yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {products.map((product) => (
+                <ProductCard
+                  key={product.id}
+                  id={product.id}
+                  name={product.name}
+                  price={product.price}
+                  imageUrl={product.image_url}
+                  stock={product.stock}
+                  rating={product.rating_count > 0 ? product.rating_average : undefined}
+                  reviews={product.rating_count}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Storefront;
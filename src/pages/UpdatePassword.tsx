@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { z } from "zod";
+import { getAuthLinkError } from "@/lib/auth";
+
+const passwordSchema = z
+  .object({
+    password: z.string().min(8, { message: "Password must be at least 8 characters" }).max(100),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+// Landing page for password recovery links; the link signs the user in so the password can be changed
+const UpdatePassword = () => {
+  const navigate = useNavigate();
+  const { session, loading: authLoading, homePath } = useAuth();
+  const [linkError] = useState(getAuthLinkError);
+  const [formData, setFormData] = useState({ password: "", confirmPassword: "" });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = passwordSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) fieldErrors[err.path[0].toString()] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.auth.updateUser({ password: result.data.password });
+      if (error) throw error;
+
+      toast.success("Password updated");
+      navigate(homePath, { replace: true });
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update password");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (authLoading && !linkError) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  const linkInvalid = !!linkError || !session;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">{linkInvalid ? "This link can't be used" : "Choose a new password"}</CardTitle>
+          <CardDescription>
+            {linkInvalid
+              ? linkError?.code === "otp_expired"
+                ? "Password reset links expire after a while and can only be used once."
+                : linkError?.description || "Open the most recent reset link we emailed you, or request a new one."
+              : "You'll use it the next time you sign in with your email"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {linkInvalid ? (
+            <Button className="w-full" onClick={() => navigate("/auth/reset")}>
+              Send a New Link
+            </Button>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New Password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                />
+                {errors.password && <p className="text-sm text-destructive">{errors.password}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm Password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={formData.confirmPassword}
+                  onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                />
+                {errors.confirmPassword && <p className="text-sm text-destructive">{errors.confirmPassword}</p>}
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving ? "Saving..." : "Update Password"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UpdatePassword;
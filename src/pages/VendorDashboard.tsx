@@ -1,5 +1,4 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,7 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { Plus, Package, LogOut, Edit, Trash2, Upload, X } from "lucide-react";
+import { Plus, Package, Edit, Trash2, Upload, X } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -16,7 +15,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { z } from "zod";
+import { categories } from "@/lib/categories";
+import CashReconciliation from "@/components/CashReconciliation";
+import AccountMenu from "@/components/AccountMenu";
+import BusinessProfile from "@/components/vendor/BusinessProfile";
+import { useAuth } from "@/contexts/AuthContext";
 
 const productSchema = z.object({
   name: z.string().trim().min(1, { message: "Product name is required" }).max(100),
@@ -44,7 +49,7 @@ interface Product {
 }
 
 const VendorDashboard = () => {
-  const navigate = useNavigate();
+  const { user } = useAuth();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -61,31 +66,8 @@ const VendorDashboard = () => {
   });
 
   useEffect(() => {
-    checkVendorAndLoadProducts();
-  }, []);
-
-  const checkVendorAndLoadProducts = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      navigate("/auth");
-      return;
-    }
-
-    const { data: roleData } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", session.user.id)
-      .single();
-
-    if (roleData?.role !== "vendor") {
-      toast.error("Access denied. Vendor account required.");
-      navigate("/");
-      return;
-    }
-
     loadProducts();
-  };
+  }, []);
 
   const loadProducts = async () => {
     try {
@@ -247,11 +229,6 @@ const VendorDashboard = () => {
     }
   };
 
-  const handleSignOut = async () => {
-    await supabase.auth.signOut();
-    navigate("/auth");
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -265,14 +242,17 @@ const VendorDashboard = () => {
       <header className="border-b">
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold">Vendor Dashboard</h1>
-          <Button variant="ghost" onClick={handleSignOut}>
-            <LogOut className="h-4 w-4 mr-2" />
-            Sign Out
-          </Button>
+          <AccountMenu />
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8">
+        {user && (
+          <section className="mb-12">
+            <BusinessProfile userId={user.id} />
+          </section>
+        )}
+
         <div className="flex justify-between items-center mb-6">
           <div>
             <h2 className="text-3xl font-bold">My Products</h2>
@@ -311,11 +291,21 @@ const VendorDashboard = () => {
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="category">Category</Label>
-                    <Input
-                      id="category"
+                    <Select
                       value={formData.category}
-                      onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                    />
+                      onValueChange={(value) => setFormData({ ...formData, category: value })}
+                    >
+                      <SelectTrigger id="category">
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.slug} value={category.title}>
+                            {category.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                 </div>
                 <div className="space-y-2">
@@ -468,6 +458,10 @@ const VendorDashboard = () => {
             ))}
           </div>
         )}
+
+        <section className="mt-12">
+          <CashReconciliation />
+        </section>
       </main>
     </div>
   );
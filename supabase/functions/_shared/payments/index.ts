@@ -0,0 +1,54 @@
+import { createFlutterwaveGateway } from "./flutterwave.ts";
+import { createMockGateway } from "./mock.ts";
+import { createPaystackGateway } from "./paystack.ts";
+import type { PaymentGateway, PaymentProvider } from "./types.ts";
+
+export * from "./types.ts";
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
+
+export const getMockSecret = () => Deno.env.get("MOCK_GATEWAY_SECRET") ?? "mock-gateway-secret";
+
+/** Setting PAYMENT_GATEWAY to "mock" routes every provider through the mock to run checkout offline. */
+export const isMockMode = () => Deno.env.get("PAYMENT_GATEWAY") === "mock";
+
+/**
+ * Whether a URL is on one of the app's own origins (APP_URL, comma-separated), so a
+ * gateway only ever sends customers back to the app after paying.
+ */
+export const isAppUrl = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+  const origins = requireEnv("APP_URL").split(",").map((url) => new URL(url.trim()).origin);
+  try {
+    return origins.includes(new URL(value).origin);
+  } catch {
+    return false;
+  }
+};
+
+export const isPaymentProvider = (value: unknown): value is PaymentProvider =>
+  value === "paystack" || value === "flutterwave" || value === "mock";
+
+/**
+ * Returns the adapter for a provider. The mock is only reachable in mock mode so
+ * its well-known secret can never authorise a webhook in production.
+ */
+export const getGateway = (provider: PaymentProvider): PaymentGateway => {
+  if (isMockMode()) return createMockGateway(getMockSecret());
+
+  switch (provider) {
+    case "paystack":
+      return createPaystackGateway(requireEnv("PAYSTACK_SECRET_KEY"));
+    case "flutterwave":
+      return createFlutterwaveGateway(
+        requireEnv("FLUTTERWAVE_SECRET_KEY"),
+        requireEnv("FLUTTERWAVE_WEBHOOK_HASH"),
+      );
+    default:
+      throw new Error(`Payment provider "${provider}" is not available`);
+  }
+};
@@ -0,0 +1,50 @@
+import { hmacHex, timingSafeEqual } from "./hmac.ts";
+import { type PaymentGateway, WebhookSignatureError } from "./types.ts";
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+/**
+ * Offline stand-in for a real provider. Checkout is sent to the app's own
+ * /checkout/mock-gateway page, and the outcome picked there arrives as a signed
+ * webhook (see signMockEvent), so the same verification path runs as in production.
+ */
+export const createMockGateway = (secret: string): PaymentGateway => ({
+  name: "mock",
+
+  async initialize({ reference, amount, callbackUrl }) {
+    const url = new URL("/checkout/mock-gateway", callbackUrl);
+    url.searchParams.set("reference", reference);
+    url.searchParams.set("amount", String(amount));
+    url.searchParams.set("callback", callbackUrl);
+    return { authorizationUrl: url.toString() };
+  },
+
+  // The mock never settles on its own; only its webhook completes a charge
+  async verify(reference) {
+    return { reference, status: "pending", amount: 0, currency: "NGN", raw: null };
+  },
+
+  async refund(reference) {
+    console.log(`mock gateway: refunded ${reference}`);
+  },
+
+  async parseWebhook(rawBody, headers) {
+    const signature = headers.get(MOCK_SIGNATURE_HEADER) ?? "";
+    const expected = await hmacHex("SHA-256", secret, rawBody);
+    if (!timingSafeEqual(signature, expected)) throw new WebhookSignatureError();
+
+    const event = JSON.parse(rawBody);
+    return {
+      eventKey: event.id,
+      charge: {
+        reference: event.reference,
+        status: event.status,
+        amount: event.amount,
+        currency: "NGN",
+        raw: event,
+      },
+    };
+  },
+});
+
+export const signMockEvent = (secret: string, rawBody: string) => hmacHex("SHA-256", secret, rawBody);
@@ -0,0 +1,95 @@
+import { hmacHex, timingSafeEqual } from "./hmac.ts";
+import {
+  type ChargeResult,
+  type ChargeStatus,
+  type PaymentGateway,
+  WebhookSignatureError,
+} from "./types.ts";
+
+const PAYSTACK_API = "https://api.paystack.co";
+
+interface PaystackTransaction {
+  reference: string;
+  status: string;
+  amount: number;
+  currency: string;
+}
+
+const toChargeResult = (transaction: PaystackTransaction): ChargeResult => {
+  let status: ChargeStatus = "pending";
+  if (transaction.status === "success") status = "success";
+  // "abandoned" only means the customer hasn't finished yet; they can still pay on the same reference
+  if (["failed", "reversed"].includes(transaction.status)) status = "failed";
+
+  return {
+    reference: transaction.reference,
+    status,
+    amount: transaction.amount / 100,
+    currency: transaction.currency,
+    raw: transaction,
+  };
+};
+
+export const createPaystackGateway = (secretKey: string): PaymentGateway => {
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${PAYSTACK_API}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/json",
+      },
+    });
+    const body = await response.json();
+    if (!response.ok || !body.status) {
+      throw new Error(body.message || `Paystack request failed with ${response.status}`);
+    }
+    return body.data;
+  };
+
+  return {
+    name: "paystack",
+
+    async initialize({ reference, amount, email, callbackUrl }) {
+      const data = await request("/transaction/initialize", {
+        method: "POST",
+        body: JSON.stringify({
+          reference,
+          email,
+          amount: Math.round(amount * 100),
+          currency: "NGN",
+          callback_url: callbackUrl,
+        }),
+      });
+      return { authorizationUrl: data.authorization_url };
+    },
+
+    async verify(reference) {
+      const data = await request(`/transaction/verify/${encodeURIComponent(reference)}`);
+      return toChargeResult(data);
+    },
+
+    async refund(reference, amount) {
+      await request("/refund", {
+        method: "POST",
+        body: JSON.stringify({
+          transaction: reference,
+          ...(amount !== undefined && { amount: Math.round(amount * 100) }),
+        }),
+      });
+    },
+
+    // Paystack signs the raw body with HMAC-SHA512 keyed on the secret key
+    async parseWebhook(rawBody, headers) {
+      const signature = headers.get("x-paystack-signature") ?? "";
+      const expected = await hmacHex("SHA-512", secretKey, rawBody);
+      if (!timingSafeEqual(signature, expected)) throw new WebhookSignatureError();
+
+      const event = JSON.parse(rawBody);
+      if (event.event !== "charge.success" && event.event !== "charge.failed") return null;
+      return {
+        eventKey: `${event.event}:${event.data.id ?? event.data.reference}`,
+        charge: toChargeResult(event.data),
+      };
+    },
+  };
+};
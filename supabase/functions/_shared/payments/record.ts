@@ -0,0 +1,29 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ChargeResult, PaymentGateway } from "./types.ts";
+
+/**
+ * Stores a settled charge through record_payment_result and refunds it when the
+ * database says it can't be used. Safe to call repeatedly for the same charge.
+ */
+export const applyCharge = async (admin: SupabaseClient, gateway: PaymentGateway, charge: ChargeResult) => {
+  const { data, error } = await admin.rpc("record_payment_result", {
+    _provider: gateway.name,
+    _reference: charge.reference,
+    _succeeded: charge.status === "success",
+    _amount: charge.amount,
+    _currency: charge.currency,
+    _provider_response: charge.raw,
+  });
+  if (error) throw error;
+
+  const [{ status, needs_refund }] = data;
+  if (needs_refund) {
+    // The payment is already marked refunded, so a failure here must be settled by hand
+    try {
+      await gateway.refund(charge.reference);
+    } catch (refundError) {
+      console.error(`refund of ${gateway.name} payment ${charge.reference} failed:`, refundError);
+    }
+  }
+  return status as string;
+};
@@ -0,0 +1,52 @@
+export type PaymentProvider = "paystack" | "flutterwave" | "mock";
+
+export type ChargeStatus = "success" | "failed" | "pending";
+
+export interface InitializeParams {
+  reference: string;
+  /** Amount in naira; adapters convert to the provider's minor unit */
+  amount: number;
+  email: string;
+  callbackUrl: string;
+}
+
+export interface InitializeResult {
+  authorizationUrl: string;
+}
+
+export interface ChargeResult {
+  reference: string;
+  status: ChargeStatus;
+  /** Amount in naira as reported by the provider */
+  amount: number;
+  /** ISO currency code; anything other than NGN is refunded */
+  currency: string;
+  raw: unknown;
+}
+
+export interface WebhookEvent {
+  /** Unique per delivery attempt of the same event, used to drop duplicate callbacks */
+  eventKey: string;
+  charge: ChargeResult;
+}
+
+export interface PaymentGateway {
+  name: PaymentProvider;
+  initialize(params: InitializeParams): Promise<InitializeResult>;
+  verify(reference: string): Promise<ChargeResult>;
+  /** Refunds a settled charge, in full unless an amount in naira is given */
+  refund(reference: string, amount?: number): Promise<void>;
+  /**
+   * Authenticates a webhook request and extracts the charge it reports.
+   * Throws WebhookSignatureError for forged requests and returns null for
+   * events that are not about a charge.
+   */
+  parseWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null>;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor() {
+    super("Invalid webhook signature");
+    this.name = "WebhookSignatureError";
+  }
+}
@@ -0,0 +1,56 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/cors.ts";
+import { getGateway, isPaymentProvider, WebhookSignatureError } from "../_shared/payments/index.ts";
+import { applyCharge } from "../_shared/payments/record.ts";
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+// Called by the payment provider, so there is no user JWT; the signature is the authentication.
+// Each provider is configured with its own URL: /functions/v1/payment-webhook?provider=<name>
+serve(async (req) => {
+  if (req.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405);
+
+  const provider = new URL(req.url).searchParams.get("provider");
+  if (!isPaymentProvider(provider)) return jsonResponse({ error: "Unknown provider" }, 400);
+
+  const rawBody = await req.text();
+
+  try {
+    const gateway = getGateway(provider);
+    const event = await gateway.parseWebhook(rawBody, req.headers);
+    if (!event || event.charge.status === "pending") return jsonResponse({ received: true });
+
+    // Claim the event first; a provider retry of the same delivery stops here
+    const { data: claimed, error: claimError } = await admin
+      .from("payment_webhook_events")
+      .upsert(
+        {
+          provider: gateway.name,
+          event_key: event.eventKey,
+          reference: event.charge.reference,
+          payload: event.charge.raw,
+        },
+        { onConflict: "provider,event_key", ignoreDuplicates: true },
+      )
+      .select("id");
+    if (claimError) throw claimError;
+    if (!claimed?.length) return jsonResponse({ received: true, duplicate: true });
+
+    try {
+      await applyCharge(admin, gateway, event.charge);
+    } catch (error) {
+      // Release the claim so the provider's retry gets another go
+      await admin.from("payment_webhook_events").delete().eq("id", claimed[0].id);
+      throw error;
+    }
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return jsonResponse({ error: error.message }, 401);
+    }
+    console.error("payment-webhook error:", error);
+    return jsonResponse({ error: "Webhook processing failed" }, 500);
+  }
+});
@@ -0,0 +1,146 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getGateway, getMockSecret, isAppUrl, isMockMode, isPaymentProvider } from "../_shared/payments/index.ts";
+import { MOCK_SIGNATURE_HEADER, signMockEvent } from "../_shared/payments/mock.ts";
+import { applyCharge } from "../_shared/payments/record.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+const newReference = () => `JFY-${crypto.randomUUID().replace(/-/g, "").slice(0, 20).toUpperCase()}`;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return jsonResponse({ error: "Unauthorized" }, 401);
+
+    const body = await req.json();
+
+    switch (body.action) {
+      // Opens a transaction for an unpaid checkout and returns where to send the customer
+      case "initialize": {
+        const provider = body.provider ?? "paystack";
+        if (!isPaymentProvider(provider) || provider === "mock") {
+          return jsonResponse({ error: "Unsupported payment provider" }, 400);
+        }
+        if (!isAppUrl(body.callback_url)) {
+          return jsonResponse({ error: "Invalid callback URL" }, 400);
+        }
+        const gateway = getGateway(provider);
+
+        const { data: group, error } = await admin
+          .from("order_groups")
+          .select("id, total_amount, payment_status, orders (status)")
+          .eq("id", body.order_group_id)
+          .eq("customer_id", user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!group) return jsonResponse({ error: "Order not found" }, 404);
+        if (group.payment_status === "paid") {
+          return jsonResponse({ error: "This order has already been paid for" }, 409);
+        }
+        if (group.orders.every((order: { status: string }) => order.status === "cancelled")) {
+          return jsonResponse({ error: "This checkout was cancelled before it was paid for. Please order again." }, 409);
+        }
+
+        const reference = newReference();
+        const { error: insertError } = await admin.from("payments").insert({
+          order_group_id: group.id,
+          customer_id: user.id,
+          provider: gateway.name,
+          reference,
+          amount: group.total_amount,
+        });
+        if (insertError) throw insertError;
+
+        const { authorizationUrl } = await gateway.initialize({
+          reference,
+          amount: group.total_amount,
+          email: user.email ?? `${user.id}@customers.jiffy.ng`,
+          callbackUrl: body.callback_url,
+        });
+
+        await admin.from("payments").update({ authorization_url: authorizationUrl }).eq("reference", reference);
+
+        return jsonResponse({ reference, authorization_url: authorizationUrl });
+      }
+
+      // Confirms a payment after the customer returns, in case the webhook hasn't arrived yet
+      case "verify": {
+        const { data: payment, error } = await admin
+          .from("payments")
+          .select("reference, status, provider, order_group_id")
+          .eq("reference", body.reference)
+          .eq("customer_id", user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!payment) return jsonResponse({ error: "Payment not found" }, 404);
+
+        const result = { provider: payment.provider, order_group_id: payment.order_group_id };
+        // A failed payment is checked again in case the customer retried on the same reference
+        if (payment.status !== "pending" && payment.status !== "failed") {
+          return jsonResponse({ ...result, status: payment.status });
+        }
+
+        const gateway = getGateway(payment.provider);
+        const charge = await gateway.verify(payment.reference);
+        if (charge.status === "pending") {
+          return jsonResponse({ ...result, status: "pending" });
+        }
+
+        const status = await applyCharge(admin, gateway, charge);
+        return jsonResponse({ ...result, status });
+      }
+
+      // Stands in for the provider calling our webhook when running on the mock gateway
+      case "mock_complete": {
+        if (!isMockMode()) return jsonResponse({ error: "Mock gateway is disabled" }, 400);
+
+        const { data: payment, error } = await admin
+          .from("payments")
+          .select("reference, amount")
+          .eq("reference", body.reference)
+          .eq("customer_id", user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!payment) return jsonResponse({ error: "Payment not found" }, 404);
+
+        const event = JSON.stringify({
+          id: crypto.randomUUID(),
+          reference: payment.reference,
+          status: body.outcome === "success" ? "success" : "failed",
+          amount: payment.amount,
+        });
+
+        const response = await fetch(`${supabaseUrl}/functions/v1/payment-webhook?provider=mock`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            [MOCK_SIGNATURE_HEADER]: await signMockEvent(getMockSecret(), event),
+          },
+          body: event,
+        });
+        if (!response.ok) throw new Error(`Mock webhook failed with ${response.status}`);
+
+        return jsonResponse({ ok: true });
+      }
+
+      default:
+        return jsonResponse({ error: "Unknown action" }, 400);
+    }
+  } catch (error) {
+    console.error("payments error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Payment request failed" }, 500);
+  }
+});
@@ -0,0 +1,52 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Webhook } from "https://esm.sh/standardwebhooks@1.0.0";
+import { jsonResponse } from "../_shared/cors.ts";
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+interface SendSmsPayload {
+  user: { id: string; phone: string };
+  sms: { otp: string };
+}
+
+const hookError = (message: string, status: number) => jsonResponse({ error: { http_code: status, message } }, status);
+
+/**
+ * Supabase Auth's Send SMS hook, used as a stand-in for an SMS provider during development.
+ * With SMS_PROVIDER set to "log" it prints each code and keeps it in sms_outbox so local
+ * sign-ins and tests can read it; anywhere else the hook should be disabled in favour of
+ * the project's real SMS provider, and this function refuses to swallow codes.
+ */
+serve(async (req) => {
+  if (req.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405);
+
+  if (Deno.env.get("SMS_PROVIDER") !== "log") {
+    return hookError("SMS delivery is not configured", 500);
+  }
+
+  const secret = Deno.env.get("SEND_SMS_HOOK_SECRET");
+  if (!secret) return hookError("SEND_SMS_HOOK_SECRET is not configured", 500);
+
+  const rawBody = await req.text();
+
+  let payload: SendSmsPayload;
+  try {
+    const webhook = new Webhook(secret.replace("v1,whsec_", ""));
+    payload = webhook.verify(rawBody, Object.fromEntries(req.headers)) as SendSmsPayload;
+  } catch {
+    return hookError("Invalid signature", 401);
+  }
+
+  const message = `Your Jiffy NG code is ${payload.sms.otp}. It expires in 5 minutes.`;
+  console.log(`[send-sms] ${payload.user.phone}: ${message}`);
+
+  const { error } = await admin.from("sms_outbox").insert({
+    user_id: payload.user.id,
+    phone: payload.user.phone,
+    message,
+  });
+  if (error) console.error("send-sms outbox error:", error);
+
+  return jsonResponse({});
+});
@@ -0,0 +1,32 @@
+-- Let anonymous visitors browse the catalog; only vendors can still write to products
+DROP POLICY IF EXISTS "Customers can view all products" ON public.products;
+DROP POLICY IF EXISTS "Riders can view all products" ON public.products;
+
+CREATE POLICY "Anyone can view products"
+ON public.products
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE INDEX IF NOT EXISTS products_category_idx ON public.products (lower(trim(category)));
+CREATE INDEX IF NOT EXISTS products_created_at_idx ON public.products (created_at DESC);
+
+-- Per-category product counts for the storefront category cards
+CREATE OR REPLACE FUNCTION public.get_category_counts()
+RETURNS TABLE (
+  category text,
+  product_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    lower(trim(p.category)) AS category,
+    count(*) AS product_count
+  FROM public.products p
+  WHERE p.category IS NOT NULL AND trim(p.category) <> ''
+  GROUP BY lower(trim(p.category))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_category_counts() TO anon, authenticated;
@@ -0,0 +1,21 @@
+-- Public, non-sensitive vendor details for product pages
+CREATE OR REPLACE FUNCTION public.get_vendor_public_profile(_vendor_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  business_name text,
+  business_description text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    v.user_id,
+    v.business_name,
+    v.business_description
+  FROM public.vendor_profiles v
+  WHERE v.user_id = _vendor_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_vendor_public_profile(uuid) TO anon, authenticated;
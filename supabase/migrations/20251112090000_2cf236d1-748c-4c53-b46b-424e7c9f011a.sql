@@ -0,0 +1,89 @@
+-- Full-text and fuzzy product search
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.products
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX products_search_vector_idx ON public.products USING gin (search_vector);
+CREATE INDEX products_name_trgm_idx ON public.products USING gin (name extensions.gin_trgm_ops);
+
+-- Turns free text into a prefix tsquery ("wirel head" -> 'wirel':* & 'head':*)
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('english', string_agg(token || ':*', ' & '))
+  FROM regexp_split_to_table(lower(coalesce(_query, '')), '[^[:alnum:]]+') AS token
+  WHERE token <> ''
+$$;
+
+-- Ranked search over name, category and description. Words match by prefix
+-- and whole-query trigram similarity on the name catches typos ("hedphones").
+CREATE OR REPLACE FUNCTION public.search_products(
+  _query text,
+  _limit integer DEFAULT 24,
+  _offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  vendor_id uuid,
+  name text,
+  description text,
+  price numeric,
+  image_url text,
+  stock integer,
+  category text,
+  created_at timestamptz,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.35
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq, trim(_query) AS raw
+  )
+  SELECT
+    p.id,
+    p.vendor_id,
+    p.name,
+    p.description,
+    p.price,
+    p.image_url,
+    p.stock,
+    p.category,
+    p.created_at,
+    (coalesce(ts_rank(p.search_vector, q.tsq), 0) + word_similarity(q.raw, p.name))::real AS rank
+  FROM public.products p, q
+  WHERE q.raw <> ''
+    AND (p.search_vector @@ q.tsq OR q.raw <% p.name)
+  ORDER BY rank DESC, p.created_at DESC
+  LIMIT least(greatest(_limit, 1), 100)
+  OFFSET greatest(_offset, 0)
+$$;
+
+-- Lightweight autocomplete for the header search box
+CREATE OR REPLACE FUNCTION public.search_product_suggestions(_query text, _limit integer DEFAULT 8)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  category text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT s.id, s.name, s.category
+  FROM public.search_products(_query, _limit, 0) s
+$$;
+
+GRANT EXECUTE ON FUNCTION public.to_prefix_tsquery(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_products(text, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_product_suggestions(text, integer) TO anon, authenticated;
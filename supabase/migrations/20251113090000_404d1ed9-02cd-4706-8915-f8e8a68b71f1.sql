@@ -0,0 +1,243 @@
+-- Denormalised ranking columns used for catalog facets and keyset pagination
+ALTER TABLE public.products
+ADD COLUMN rating_average numeric(3, 2) NOT NULL DEFAULT 0,
+ADD COLUMN rating_count integer NOT NULL DEFAULT 0,
+ADD COLUMN sales_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX products_newest_idx ON public.products (created_at DESC, id DESC);
+CREATE INDEX products_price_idx ON public.products (price, id);
+CREATE INDEX products_popularity_idx ON public.products (sales_count DESC, id DESC);
+CREATE INDEX products_vendor_id_idx ON public.products (vendor_id);
+
+-- Product reviews, one per customer per product
+CREATE TABLE public.product_reviews (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (product_id, customer_id)
+);
+
+ALTER TABLE public.product_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product reviews"
+ON public.product_reviews
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Only customers who received the product may review it
+CREATE POLICY "Customers can review delivered products"
+ON public.product_reviews
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  customer_id = auth.uid() AND
+  public.has_role(auth.uid(), 'customer') AND
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.customer_id = auth.uid()
+      AND o.product_id = product_reviews.product_id
+      AND o.status = 'delivered'
+  )
+);
+
+CREATE POLICY "Customers can update their own reviews"
+ON public.product_reviews
+FOR UPDATE
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE POLICY "Customers can delete their own reviews"
+ON public.product_reviews
+FOR DELETE
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE TRIGGER update_product_reviews_updated_at
+BEFORE UPDATE ON public.product_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.refresh_product_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product_id uuid := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE public.products p
+  SET
+    rating_average = COALESCE(r.avg_rating, 0),
+    rating_count = COALESCE(r.review_count, 0)
+  FROM (
+    SELECT avg(rating)::numeric(3, 2) AS avg_rating, count(*)::integer AS review_count
+    FROM public.product_reviews
+    WHERE product_id = _product_id
+  ) r
+  WHERE p.id = _product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER product_reviews_refresh_rating
+AFTER INSERT OR UPDATE OR DELETE ON public.product_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_product_rating();
+
+-- Count units sold for the popularity sort
+CREATE OR REPLACE FUNCTION public.increment_product_sales()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products
+  SET sales_count = sales_count + NEW.quantity
+  WHERE id = NEW.product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER orders_increment_product_sales
+AFTER INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.increment_product_sales();
+
+UPDATE public.products p
+SET sales_count = s.units
+FROM (
+  SELECT product_id, sum(quantity)::integer AS units
+  FROM public.orders
+  GROUP BY product_id
+) s
+WHERE p.id = s.product_id;
+
+-- Price bounds and vendors available within a category
+CREATE OR REPLACE FUNCTION public.get_category_facets(_category text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT p.price, p.vendor_id
+    FROM public.products p
+    WHERE lower(trim(p.category)) = lower(trim(_category))
+  )
+  SELECT jsonb_build_object(
+    'min_price', COALESCE((SELECT min(price) FROM scoped), 0),
+    'max_price', COALESCE((SELECT max(price) FROM scoped), 0),
+    'vendors', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'vendor_id', s.vendor_id,
+          'business_name', COALESCE(v.business_name, 'Unknown vendor'),
+          'product_count', s.product_count
+        )
+        ORDER BY v.business_name
+      )
+      FROM (
+        SELECT vendor_id, count(*) AS product_count
+        FROM scoped
+        GROUP BY vendor_id
+      ) s
+      LEFT JOIN public.vendor_profiles v ON v.user_id = s.vendor_id
+    ), '[]'::jsonb)
+  )
+$$;
+
+-- Filtered catalog listing with keyset pagination. Pass the sort key and id
+-- of the last row received as the cursor to fetch the following page.
+CREATE OR REPLACE FUNCTION public.browse_products(
+  _category text,
+  _sort text DEFAULT 'newest',
+  _min_price numeric DEFAULT NULL,
+  _max_price numeric DEFAULT NULL,
+  _vendor_ids uuid[] DEFAULT NULL,
+  _in_stock_only boolean DEFAULT false,
+  _min_rating numeric DEFAULT NULL,
+  _cursor_value text DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 24
+)
+RETURNS TABLE (
+  id uuid,
+  vendor_id uuid,
+  name text,
+  price numeric,
+  image_url text,
+  stock integer,
+  category text,
+  rating_average numeric,
+  rating_count integer,
+  sales_count integer,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _order_by text;
+  _cursor_condition text;
+BEGIN
+  -- Each sort gets its own ORDER BY so the planner can walk the matching index
+  CASE _sort
+    WHEN 'newest' THEN
+      _order_by := 'p.created_at DESC, p.id DESC';
+      _cursor_condition := '(p.created_at, p.id) < ($8::timestamptz, $9)';
+    WHEN 'price_asc' THEN
+      _order_by := 'p.price ASC, p.id ASC';
+      _cursor_condition := '(p.price, p.id) > ($8::numeric, $9)';
+    WHEN 'price_desc' THEN
+      _order_by := 'p.price DESC, p.id DESC';
+      _cursor_condition := '(p.price, p.id) < ($8::numeric, $9)';
+    WHEN 'popularity' THEN
+      _order_by := 'p.sales_count DESC, p.id DESC';
+      _cursor_condition := '(p.sales_count, p.id) < ($8::integer, $9)';
+    ELSE
+      RAISE EXCEPTION 'Unsupported sort option: %', _sort;
+  END CASE;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT
+       p.id, p.vendor_id, p.name, p.price, p.image_url, p.stock, p.category,
+       p.rating_average, p.rating_count, p.sales_count, p.created_at
+     FROM public.products p
+     WHERE lower(trim(p.category)) = lower(trim($1))
+       AND ($2::numeric IS NULL OR p.price >= $2)
+       AND ($3::numeric IS NULL OR p.price <= $3)
+       AND ($4::uuid[] IS NULL OR cardinality($4) = 0 OR p.vendor_id = ANY($4))
+       AND (NOT $5 OR p.stock > 0)
+       AND ($6::numeric IS NULL OR p.rating_average >= $6)
+       AND ($9::uuid IS NULL OR %s)
+     ORDER BY %s
+     LIMIT $7',
+    _cursor_condition,
+    _order_by
+  )
+  USING
+    _category,
+    _min_price,
+    _max_price,
+    _vendor_ids,
+    COALESCE(_in_stock_only, false),
+    _min_rating,
+    least(greatest(_limit, 1), 100),
+    _cursor_value,
+    _cursor_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_category_facets(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.browse_products(text, text, numeric, numeric, uuid[], boolean, numeric, text, uuid, integer) TO anon, authenticated;
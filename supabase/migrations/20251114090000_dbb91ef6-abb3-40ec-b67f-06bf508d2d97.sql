@@ -0,0 +1,99 @@
+-- Persistent shopping cart, one row per customer and product
+CREATE TABLE public.cart_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (customer_id, product_id)
+);
+
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cart"
+ON public.cart_items
+FOR SELECT
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE POLICY "Users can add to their own cart"
+ON public.cart_items
+FOR INSERT
+TO authenticated
+WITH CHECK (customer_id = auth.uid());
+
+CREATE POLICY "Users can update their own cart"
+ON public.cart_items
+FOR UPDATE
+TO authenticated
+USING (customer_id = auth.uid())
+WITH CHECK (customer_id = auth.uid());
+
+CREATE POLICY "Users can remove from their own cart"
+ON public.cart_items
+FOR DELETE
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE TRIGGER update_cart_items_updated_at
+BEFORE UPDATE ON public.cart_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reject quantities the vendor cannot fulfil
+CREATE OR REPLACE FUNCTION public.validate_cart_item_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _stock integer;
+BEGIN
+  SELECT stock INTO _stock FROM public.products WHERE id = NEW.product_id;
+
+  IF NEW.quantity > COALESCE(_stock, 0) THEN
+    RAISE EXCEPTION 'Only % left in stock', COALESCE(_stock, 0)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cart_items_validate_stock
+BEFORE INSERT OR UPDATE OF quantity ON public.cart_items
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_cart_item_stock();
+
+-- Merge a guest cart ([{"product_id": ..., "quantity": ...}]) into the signed-in
+-- user's cart, summing quantities and capping them at available stock.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.cart_items (customer_id, product_id, quantity)
+  SELECT
+    auth.uid(),
+    p.id,
+    least(sum(i.quantity), p.stock)
+  FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  JOIN public.products p ON p.id = i.product_id
+  WHERE i.quantity > 0 AND p.stock > 0
+  GROUP BY p.id, p.stock
+  ON CONFLICT (customer_id, product_id) DO UPDATE
+  SET quantity = least(
+    cart_items.quantity + EXCLUDED.quantity,
+    (SELECT stock FROM public.products WHERE id = EXCLUDED.product_id)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_guest_cart(jsonb) TO authenticated;
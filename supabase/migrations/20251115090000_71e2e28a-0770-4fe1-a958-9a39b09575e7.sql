@@ -0,0 +1,265 @@
+-- One checkout is an order group; each vendor in it gets its own order (and
+-- rider), and each order holds one or more line items.
+CREATE TABLE public.order_groups (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id uuid NOT NULL,
+  delivery_address text NOT NULL,
+  customer_phone text NOT NULL,
+  total_amount numeric(10, 2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.order_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their own order groups"
+ON public.order_groups
+FOR SELECT
+TO authenticated
+USING (
+  customer_id = auth.uid() AND
+  public.has_role(auth.uid(), 'customer')
+);
+
+CREATE TRIGGER update_order_groups_updated_at
+BEFORE UPDATE ON public.order_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.order_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name text NOT NULL,
+  product_price numeric(10, 2) NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_items_order_id_idx ON public.order_items (order_id);
+CREATE INDEX order_items_product_id_idx ON public.order_items (product_id);
+
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- Visible to whoever can see the parent order (customer, vendor or assigned rider)
+CREATE POLICY "Order participants can view order items"
+ON public.order_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_items.order_id)
+);
+
+-- Move existing single-product orders into the new shape
+ALTER TABLE public.orders
+ADD COLUMN order_group_id uuid REFERENCES public.order_groups(id) ON DELETE CASCADE;
+
+INSERT INTO public.order_groups (id, customer_id, delivery_address, customer_phone, total_amount, created_at, updated_at)
+SELECT o.id, o.customer_id, o.delivery_address, o.customer_phone, o.total_amount, o.created_at, o.updated_at
+FROM public.orders o;
+
+UPDATE public.orders SET order_group_id = id;
+
+INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity, created_at)
+SELECT o.id, p.id, o.product_name, o.product_price, o.quantity, o.created_at
+FROM public.orders o
+LEFT JOIN public.products p ON p.id = o.product_id;
+
+ALTER TABLE public.orders ALTER COLUMN order_group_id SET NOT NULL;
+CREATE INDEX orders_order_group_id_idx ON public.orders (order_group_id);
+
+-- Popularity now counts line items
+DROP TRIGGER IF EXISTS orders_increment_product_sales ON public.orders;
+
+CREATE OR REPLACE FUNCTION public.increment_product_sales()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products
+  SET sales_count = sales_count + NEW.quantity
+  WHERE id = NEW.product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER order_items_increment_product_sales
+AFTER INSERT ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.increment_product_sales();
+
+DROP POLICY IF EXISTS "Customers can review delivered products" ON public.product_reviews;
+
+CREATE POLICY "Customers can review delivered products"
+ON public.product_reviews
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  customer_id = auth.uid() AND
+  public.has_role(auth.uid(), 'customer') AND
+  EXISTS (
+    SELECT 1
+    FROM public.orders o
+    JOIN public.order_items i ON i.order_id = o.id
+    WHERE o.customer_id = auth.uid()
+      AND i.product_id = product_reviews.product_id
+      AND o.status = 'delivered'
+  )
+);
+
+-- The rider RPC exposed the old product columns, so it has to be rebuilt
+DROP FUNCTION IF EXISTS public.get_pending_orders_for_rider();
+
+ALTER TABLE public.orders
+DROP COLUMN product_id,
+DROP COLUMN product_name,
+DROP COLUMN product_price,
+DROP COLUMN quantity;
+
+CREATE OR REPLACE FUNCTION public.get_pending_orders_for_rider()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  order_group_id uuid,
+  customer_id uuid,
+  vendor_id uuid,
+  rider_id uuid,
+  total_amount numeric,
+  status order_status,
+  customer_phone text,
+  delivery_address text,
+  items jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.created_at,
+    o.updated_at,
+    o.order_group_id,
+    o.customer_id,
+    o.vendor_id,
+    o.rider_id,
+    o.total_amount,
+    o.status,
+    CASE
+      WHEN o.rider_id IS NULL THEN '***-***-' || RIGHT(o.customer_phone, 4)
+      ELSE o.customer_phone
+    END as customer_phone,
+    CASE
+      WHEN o.rider_id IS NULL THEN SUBSTRING(o.delivery_address, 1, 20) || '...'
+      ELSE o.delivery_address
+    END as delivery_address,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', i.id,
+          'product_id', i.product_id,
+          'product_name', i.product_name,
+          'product_price', i.product_price,
+          'quantity', i.quantity
+        )
+        ORDER BY i.created_at
+      )
+      FROM public.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb) AS items
+  FROM public.orders o
+  WHERE o.status = 'pending' AND has_role(auth.uid(), 'rider')
+$$;
+
+-- Orders are only created through place_order so prices come from products
+DROP POLICY IF EXISTS "Customers can create their own orders" ON public.orders;
+
+-- Places a checkout of [{"product_id": ..., "quantity": ...}] as one order
+-- group, split into one order per vendor. Returns the order group id.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _delivery_address text,
+  _customer_phone text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid := auth.uid();
+  _group_id uuid;
+  _order_id uuid;
+  _vendor_id uuid;
+BEGIN
+  IF _customer_id IS NULL OR NOT has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Customer account required';
+  END IF;
+
+  IF trim(COALESCE(_delivery_address, '')) = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  IF trim(COALESCE(_customer_phone, '')) = '' THEN
+    RAISE EXCEPTION 'Phone number is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+    WHERE i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be at least 1';
+  END IF;
+
+  CREATE TEMP TABLE _order_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.vendor_id, p.name, p.price, sum(i.quantity)::integer AS quantity
+  FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  JOIN public.products p ON p.id = i.product_id
+  GROUP BY p.id, p.vendor_id, p.name, p.price;
+
+  IF NOT EXISTS (SELECT 1 FROM _order_lines) THEN
+    RAISE EXCEPTION 'Your order has no available products';
+  END IF;
+
+  IF (SELECT count(*) FROM _order_lines) <> (
+    SELECT count(DISTINCT i.product_id) FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  ) THEN
+    RAISE EXCEPTION 'Some products in your order are no longer available';
+  END IF;
+
+  INSERT INTO public.order_groups (customer_id, delivery_address, customer_phone)
+  VALUES (_customer_id, trim(_delivery_address), trim(_customer_phone))
+  RETURNING id INTO _group_id;
+
+  FOR _vendor_id IN SELECT DISTINCT vendor_id FROM _order_lines LOOP
+    INSERT INTO public.orders (order_group_id, customer_id, vendor_id, total_amount, delivery_address, customer_phone)
+    SELECT _group_id, _customer_id, _vendor_id, sum(l.price * l.quantity), trim(_delivery_address), trim(_customer_phone)
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity)
+    SELECT _order_id, l.product_id, l.name, l.price, l.quantity
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id;
+  END LOOP;
+
+  UPDATE public.order_groups
+  SET total_amount = (SELECT sum(price * quantity) FROM _order_lines)
+  WHERE id = _group_id;
+
+  DELETE FROM public.cart_items
+  WHERE customer_id = _customer_id
+    AND product_id IN (SELECT product_id FROM _order_lines);
+
+  DROP TABLE _order_lines;
+
+  RETURN _group_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, text, text) TO authenticated;
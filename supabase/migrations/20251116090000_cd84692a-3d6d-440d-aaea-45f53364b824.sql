@@ -0,0 +1,192 @@
+-- Saved delivery addresses for checkout
+CREATE TABLE public.customer_addresses (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label text NOT NULL DEFAULT 'Home',
+  address_line text NOT NULL,
+  city text NOT NULL,
+  state text NOT NULL,
+  landmark text,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX customer_addresses_customer_id_idx ON public.customer_addresses (customer_id);
+CREATE UNIQUE INDEX customer_addresses_one_default_idx
+ON public.customer_addresses (customer_id)
+WHERE is_default;
+
+ALTER TABLE public.customer_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own addresses"
+ON public.customer_addresses
+FOR SELECT
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE POLICY "Users can add their own addresses"
+ON public.customer_addresses
+FOR INSERT
+TO authenticated
+WITH CHECK (customer_id = auth.uid());
+
+CREATE POLICY "Users can update their own addresses"
+ON public.customer_addresses
+FOR UPDATE
+TO authenticated
+USING (customer_id = auth.uid())
+WITH CHECK (customer_id = auth.uid());
+
+CREATE POLICY "Users can delete their own addresses"
+ON public.customer_addresses
+FOR DELETE
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE TRIGGER update_customer_addresses_updated_at
+BEFORE UPDATE ON public.customer_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep a single default address per customer
+CREATE OR REPLACE FUNCTION public.ensure_single_default_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_default THEN
+    UPDATE public.customer_addresses
+    SET is_default = false
+    WHERE customer_id = NEW.customer_id
+      AND id <> NEW.id
+      AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER customer_addresses_single_default
+BEFORE INSERT OR UPDATE OF is_default ON public.customer_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.ensure_single_default_address();
+
+CREATE OR REPLACE FUNCTION public.format_customer_address(_address public.customer_addresses)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(', ', _address.address_line, _address.city, _address.state) ||
+    CASE
+      WHEN nullif(trim(_address.landmark), '') IS NOT NULL THEN ' (near ' || trim(_address.landmark) || ')'
+      ELSE ''
+    END
+$$;
+
+-- place_order now takes a saved address and checks prices and stock itself
+DROP FUNCTION IF EXISTS public.place_order(jsonb, text, text);
+
+-- Places a checkout of [{"product_id": ..., "quantity": ...}] as one order
+-- group, split into one order per vendor. Prices always come from products;
+-- _expected_total is what the customer was shown, and a mismatch aborts the
+-- order so nobody pays a price they did not see. Returns the order group id.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _customer_phone text,
+  _expected_total numeric DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid := auth.uid();
+  _delivery_address text;
+  _total numeric;
+  _group_id uuid;
+  _order_id uuid;
+  _vendor_id uuid;
+  _line record;
+BEGIN
+  IF _customer_id IS NULL OR NOT has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Customer account required';
+  END IF;
+
+  SELECT public.format_customer_address(a) INTO _delivery_address
+  FROM public.customer_addresses a
+  WHERE a.id = _address_id AND a.customer_id = _customer_id;
+
+  IF _delivery_address IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address';
+  END IF;
+
+  IF trim(COALESCE(_customer_phone, '')) = '' THEN
+    RAISE EXCEPTION 'Phone number is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+    WHERE i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be at least 1';
+  END IF;
+
+  CREATE TEMP TABLE _order_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.vendor_id, p.name, p.price, p.stock, sum(i.quantity)::integer AS quantity
+  FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  JOIN public.products p ON p.id = i.product_id
+  GROUP BY p.id, p.vendor_id, p.name, p.price, p.stock;
+
+  IF NOT EXISTS (SELECT 1 FROM _order_lines) THEN
+    RAISE EXCEPTION 'Your order has no available products';
+  END IF;
+
+  IF (SELECT count(*) FROM _order_lines) <> (
+    SELECT count(DISTINCT i.product_id) FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  ) THEN
+    RAISE EXCEPTION 'Some products in your order are no longer available';
+  END IF;
+
+  FOR _line IN SELECT * FROM _order_lines WHERE quantity > stock LOOP
+    RAISE EXCEPTION 'Only % of "%" left in stock', _line.stock, _line.name;
+  END LOOP;
+
+  SELECT sum(price * quantity) INTO _total FROM _order_lines;
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _total THEN
+    RAISE EXCEPTION 'Prices have changed since you loaded checkout. Please review your order.';
+  END IF;
+
+  INSERT INTO public.order_groups (customer_id, delivery_address, customer_phone, total_amount)
+  VALUES (_customer_id, _delivery_address, trim(_customer_phone), _total)
+  RETURNING id INTO _group_id;
+
+  FOR _vendor_id IN SELECT DISTINCT vendor_id FROM _order_lines LOOP
+    INSERT INTO public.orders (order_group_id, customer_id, vendor_id, total_amount, delivery_address, customer_phone)
+    SELECT _group_id, _customer_id, _vendor_id, sum(l.price * l.quantity), _delivery_address, trim(_customer_phone)
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity)
+    SELECT _order_id, l.product_id, l.name, l.price, l.quantity
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id;
+  END LOOP;
+
+  DELETE FROM public.cart_items
+  WHERE customer_id = _customer_id
+    AND product_id IN (SELECT product_id FROM _order_lines);
+
+  DROP TABLE _order_lines;
+
+  RETURN _group_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text, numeric) TO authenticated;
@@ -0,0 +1,169 @@
+-- place_order now reserves stock: product rows are locked for the length of
+-- the transaction, so two checkouts can never both buy the last unit.
+-- When lines are short, the error carries HINT 'out_of_stock' and a DETAIL of
+-- [{"product_id", "name", "requested", "available"}] for the checkout UI.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _customer_phone text,
+  _expected_total numeric DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid := auth.uid();
+  _delivery_address text;
+  _total numeric;
+  _group_id uuid;
+  _order_id uuid;
+  _vendor_id uuid;
+  _shortages jsonb;
+BEGIN
+  IF _customer_id IS NULL OR NOT has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Customer account required';
+  END IF;
+
+  SELECT public.format_customer_address(a) INTO _delivery_address
+  FROM public.customer_addresses a
+  WHERE a.id = _address_id AND a.customer_id = _customer_id;
+
+  IF _delivery_address IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address';
+  END IF;
+
+  IF trim(COALESCE(_customer_phone, '')) = '' THEN
+    RAISE EXCEPTION 'Phone number is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+    WHERE i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be at least 1';
+  END IF;
+
+  -- Lock in id order so concurrent checkouts of overlapping carts cannot deadlock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT i.product_id FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE _order_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.vendor_id, p.name, p.price, p.stock, sum(i.quantity)::integer AS quantity
+  FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  JOIN public.products p ON p.id = i.product_id
+  GROUP BY p.id, p.vendor_id, p.name, p.price, p.stock;
+
+  IF NOT EXISTS (SELECT 1 FROM _order_lines) THEN
+    RAISE EXCEPTION 'Your order has no available products';
+  END IF;
+
+  IF (SELECT count(*) FROM _order_lines) <> (
+    SELECT count(DISTINCT i.product_id) FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  ) THEN
+    RAISE EXCEPTION 'Some products in your order are no longer available';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', l.product_id,
+    'name', l.name,
+    'requested', l.quantity,
+    'available', l.stock
+  ))
+  INTO _shortages
+  FROM _order_lines l
+  WHERE l.quantity > l.stock;
+
+  IF _shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'Some items in your order are out of stock'
+      USING HINT = 'out_of_stock', DETAIL = _shortages::text;
+  END IF;
+
+  SELECT sum(price * quantity) INTO _total FROM _order_lines;
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _total THEN
+    RAISE EXCEPTION 'Prices have changed since you loaded checkout. Please review your order.';
+  END IF;
+
+  UPDATE public.products p
+  SET stock = p.stock - l.quantity
+  FROM _order_lines l
+  WHERE p.id = l.product_id;
+
+  INSERT INTO public.order_groups (customer_id, delivery_address, customer_phone, total_amount)
+  VALUES (_customer_id, _delivery_address, trim(_customer_phone), _total)
+  RETURNING id INTO _group_id;
+
+  FOR _vendor_id IN SELECT DISTINCT vendor_id FROM _order_lines LOOP
+    INSERT INTO public.orders (order_group_id, customer_id, vendor_id, total_amount, delivery_address, customer_phone)
+    SELECT _group_id, _customer_id, _vendor_id, sum(l.price * l.quantity), _delivery_address, trim(_customer_phone)
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity)
+    SELECT _order_id, l.product_id, l.name, l.price, l.quantity
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id;
+  END LOOP;
+
+  DELETE FROM public.cart_items
+  WHERE customer_id = _customer_id
+    AND product_id IN (SELECT product_id FROM _order_lines);
+
+  DROP TABLE _order_lines;
+
+  RETURN _group_id;
+END;
+$$;
+
+-- Put reserved units back on the shelf when an order is cancelled
+CREATE OR REPLACE FUNCTION public.restore_cancelled_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products p
+  SET stock = p.stock + oi.quantity,
+      sales_count = GREATEST(p.sales_count - oi.quantity, 0)
+  FROM public.order_items oi
+  WHERE oi.order_id = NEW.id
+    AND p.id = oi.product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER orders_restore_cancelled_stock
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+EXECUTE FUNCTION public.restore_cancelled_order_stock();
+
+-- Customers may cancel a shipment until a rider has picked it up
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+    AND customer_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending orders can be cancelled';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_order(uuid) TO authenticated;
@@ -0,0 +1,181 @@
+-- Online payments for checkouts
+CREATE TYPE public.payment_status AS ENUM ('pending', 'paid', 'failed');
+
+ALTER TABLE public.order_groups
+ADD COLUMN payment_status public.payment_status NOT NULL DEFAULT 'pending',
+ADD COLUMN paid_at timestamptz;
+
+-- Orders placed before payments existed were already being delivered
+UPDATE public.order_groups SET payment_status = 'paid', paid_at = created_at;
+
+CREATE TABLE public.payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_group_id uuid NOT NULL REFERENCES public.order_groups(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  reference text NOT NULL UNIQUE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'NGN',
+  status public.payment_status NOT NULL DEFAULT 'pending',
+  authorization_url text,
+  provider_response jsonb,
+  paid_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payments_order_group_id_idx ON public.payments (order_group_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments are written by the payments edge function with the service role
+CREATE POLICY "Customers can view their own payments"
+ON public.payments
+FOR SELECT
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.is_order_group_paid(_order_group_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.order_groups
+    WHERE id = _order_group_id AND payment_status = 'paid'
+  )
+$$;
+
+-- Applies a verified gateway result. A successful payment for the wrong amount
+-- is treated as failed. Failed payments leave the checkout open for a retry.
+-- Returns the payment's resulting status.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _reference text,
+  _succeeded boolean,
+  _amount numeric,
+  _provider_response jsonb DEFAULT NULL
+)
+RETURNS public.payment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _status public.payment_status;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE reference = _reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment reference %', _reference;
+  END IF;
+
+  IF _payment.status = 'paid' THEN
+    RETURN _payment.status;
+  END IF;
+
+  _status := CASE
+    WHEN _succeeded AND _amount = _payment.amount THEN 'paid'::public.payment_status
+    ELSE 'failed'::public.payment_status
+  END;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_response = COALESCE(_provider_response, provider_response),
+      paid_at = CASE WHEN _status = 'paid' THEN now() END
+  WHERE id = _payment.id;
+
+  IF _status = 'paid' THEN
+    UPDATE public.order_groups
+    SET payment_status = 'paid', paid_at = now()
+    WHERE id = _payment.order_group_id;
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_result(text, boolean, numeric, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(text, boolean, numeric, jsonb) TO service_role;
+
+-- Riders only see and accept orders once the checkout has been paid for
+DROP POLICY IF EXISTS "Riders can accept orders" ON public.orders;
+
+CREATE POLICY "Riders can accept orders"
+ON public.orders
+FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'rider') AND
+  status = 'pending' AND
+  rider_id IS NULL AND
+  public.is_order_group_paid(order_group_id)
+);
+
+CREATE OR REPLACE FUNCTION public.get_pending_orders_for_rider()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  order_group_id uuid,
+  customer_id uuid,
+  vendor_id uuid,
+  rider_id uuid,
+  total_amount numeric,
+  status order_status,
+  customer_phone text,
+  delivery_address text,
+  items jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.created_at,
+    o.updated_at,
+    o.order_group_id,
+    o.customer_id,
+    o.vendor_id,
+    o.rider_id,
+    o.total_amount,
+    o.status,
+    CASE
+      WHEN o.rider_id IS NULL THEN '***-***-' || RIGHT(o.customer_phone, 4)
+      ELSE o.customer_phone
+    END as customer_phone,
+    CASE
+      WHEN o.rider_id IS NULL THEN SUBSTRING(o.delivery_address, 1, 20) || '...'
+      ELSE o.delivery_address
+    END as delivery_address,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', i.id,
+          'product_id', i.product_id,
+          'product_name', i.product_name,
+          'product_price', i.product_price,
+          'quantity', i.quantity
+        )
+        ORDER BY i.created_at
+      )
+      FROM public.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb) AS items
+  FROM public.orders o
+  JOIN public.order_groups g ON g.id = o.order_group_id
+  WHERE o.status = 'pending'
+    AND g.payment_status = 'paid'
+    AND has_role(auth.uid(), 'rider')
+$$;
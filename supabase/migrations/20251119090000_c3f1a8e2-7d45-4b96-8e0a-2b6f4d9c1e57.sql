@@ -0,0 +1,90 @@
+-- A charge that succeeds after its checkout was already paid is refunded
+ALTER TYPE public.payment_status ADD VALUE IF NOT EXISTS 'refunded';
+
+ALTER TABLE public.payments
+ADD CONSTRAINT payments_provider_check CHECK (provider IN ('paystack', 'flutterwave', 'mock'));
+
+-- Every webhook delivery we have acted on, so provider retries are dropped
+CREATE TABLE public.payment_webhook_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider text NOT NULL,
+  event_key text NOT NULL,
+  reference text NOT NULL,
+  payload jsonb,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (provider, event_key)
+);
+
+CREATE INDEX payment_webhook_events_reference_idx ON public.payment_webhook_events (reference);
+
+-- Only the payment edge functions read or write events, using the service role
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP FUNCTION IF EXISTS public.record_payment_result(text, boolean, numeric, jsonb);
+
+-- Applies a verified gateway result to a payment exactly once. Later calls for
+-- the same payment are no-ops that report the stored status. A successful
+-- charge that cannot pay for its checkout (wrong amount, or the checkout was
+-- paid by another payment meanwhile) is marked refunded and needs_refund tells
+-- the caller to send the money back.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _provider text,
+  _reference text,
+  _succeeded boolean,
+  _amount numeric,
+  _provider_response jsonb DEFAULT NULL
+)
+RETURNS TABLE (status public.payment_status, needs_refund boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _group_status public.payment_status;
+  _status public.payment_status;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments p
+  WHERE p.provider = _provider AND p.reference = _reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown % payment reference %', _provider, _reference;
+  END IF;
+
+  IF _payment.status <> 'pending' THEN
+    RETURN QUERY SELECT _payment.status, false;
+    RETURN;
+  END IF;
+
+  -- Serialises competing payments for the same checkout
+  SELECT g.payment_status INTO _group_status
+  FROM public.order_groups g
+  WHERE g.id = _payment.order_group_id
+  FOR UPDATE;
+
+  _status := CASE
+    WHEN NOT _succeeded THEN 'failed'::public.payment_status
+    WHEN _amount <> _payment.amount OR _group_status = 'paid' THEN 'refunded'::public.payment_status
+    ELSE 'paid'::public.payment_status
+  END;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_response = COALESCE(_provider_response, provider_response),
+      paid_at = CASE WHEN _status = 'paid' THEN now() END
+  WHERE id = _payment.id;
+
+  IF _status = 'paid' THEN
+    UPDATE public.order_groups
+    SET payment_status = 'paid', paid_at = now()
+    WHERE id = _payment.order_group_id;
+  END IF;
+
+  RETURN QUERY SELECT _status, _status = 'refunded';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_result(text, text, boolean, numeric, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(text, text, boolean, numeric, jsonb) TO service_role;
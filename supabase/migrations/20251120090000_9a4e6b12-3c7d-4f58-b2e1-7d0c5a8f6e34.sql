@@ -0,0 +1,397 @@
+-- Cash on delivery: the rider collects the shipment total at the door
+CREATE TYPE public.payment_method AS ENUM ('online', 'cash_on_delivery');
+
+ALTER TABLE public.order_groups
+ADD COLUMN payment_method public.payment_method NOT NULL DEFAULT 'online';
+
+-- cash_due is what the rider must collect for this shipment, 0 when paid online
+ALTER TABLE public.orders
+ADD COLUMN cash_due numeric NOT NULL DEFAULT 0 CHECK (cash_due >= 0),
+ADD COLUMN cash_collected_at timestamptz;
+
+-- Cash riders have collected, kept until the vendor confirms it was handed over
+CREATE TABLE public.rider_cash_ledger (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rider_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vendor_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  collected_at timestamptz NOT NULL DEFAULT now(),
+  remitted_at timestamptz,
+  remittance_confirmed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX rider_cash_ledger_outstanding_idx
+ON public.rider_cash_ledger (vendor_id, rider_id)
+WHERE remitted_at IS NULL;
+
+ALTER TABLE public.rider_cash_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written by confirm_cash_collection and confirm_cash_remittance
+CREATE POLICY "Riders can view their own cash ledger"
+ON public.rider_cash_ledger
+FOR SELECT
+TO authenticated
+USING (rider_id = auth.uid() AND has_role(auth.uid(), 'rider'));
+
+CREATE POLICY "Vendors can view cash collected for their orders"
+ON public.rider_cash_ledger
+FOR SELECT
+TO authenticated
+USING (vendor_id = auth.uid() AND has_role(auth.uid(), 'vendor'));
+
+-- Riders may pick up a checkout once it is paid for, or straight away for cash on delivery
+CREATE OR REPLACE FUNCTION public.is_order_group_dispatchable(_order_group_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.order_groups
+    WHERE id = _order_group_id
+      AND (payment_status = 'paid' OR payment_method = 'cash_on_delivery')
+  )
+$$;
+
+DROP POLICY IF EXISTS "Riders can accept orders" ON public.orders;
+
+CREATE POLICY "Riders can accept orders"
+ON public.orders
+FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'rider') AND
+  status = 'pending' AND
+  rider_id IS NULL AND
+  public.is_order_group_dispatchable(order_group_id)
+);
+
+DROP FUNCTION IF EXISTS public.get_pending_orders_for_rider();
+
+CREATE OR REPLACE FUNCTION public.get_pending_orders_for_rider()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  order_group_id uuid,
+  customer_id uuid,
+  vendor_id uuid,
+  rider_id uuid,
+  total_amount numeric,
+  status order_status,
+  cash_due numeric,
+  customer_phone text,
+  delivery_address text,
+  items jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.created_at,
+    o.updated_at,
+    o.order_group_id,
+    o.customer_id,
+    o.vendor_id,
+    o.rider_id,
+    o.total_amount,
+    o.status,
+    o.cash_due,
+    CASE
+      WHEN o.rider_id IS NULL THEN '***-***-' || RIGHT(o.customer_phone, 4)
+      ELSE o.customer_phone
+    END as customer_phone,
+    CASE
+      WHEN o.rider_id IS NULL THEN SUBSTRING(o.delivery_address, 1, 20) || '...'
+      ELSE o.delivery_address
+    END as delivery_address,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', i.id,
+          'product_id', i.product_id,
+          'product_name', i.product_name,
+          'product_price', i.product_price,
+          'quantity', i.quantity
+        )
+        ORDER BY i.created_at
+      )
+      FROM public.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb) AS items
+  FROM public.orders o
+  WHERE o.status = 'pending'
+    AND public.is_order_group_dispatchable(o.order_group_id)
+    AND has_role(auth.uid(), 'rider')
+$$;
+
+DROP FUNCTION IF EXISTS public.place_order(jsonb, uuid, text, numeric);
+
+-- Same as before, plus the payment method; cash on delivery checkouts put each
+-- shipment's total in cash_due for its rider to collect.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _customer_phone text,
+  _expected_total numeric DEFAULT NULL,
+  _payment_method public.payment_method DEFAULT 'online'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid := auth.uid();
+  _delivery_address text;
+  _total numeric;
+  _group_id uuid;
+  _order_id uuid;
+  _vendor_id uuid;
+  _shortages jsonb;
+BEGIN
+  IF _customer_id IS NULL OR NOT has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Customer account required';
+  END IF;
+
+  SELECT public.format_customer_address(a) INTO _delivery_address
+  FROM public.customer_addresses a
+  WHERE a.id = _address_id AND a.customer_id = _customer_id;
+
+  IF _delivery_address IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address';
+  END IF;
+
+  IF trim(COALESCE(_customer_phone, '')) = '' THEN
+    RAISE EXCEPTION 'Phone number is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+    WHERE i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be at least 1';
+  END IF;
+
+  -- Lock in id order so concurrent checkouts of overlapping carts cannot deadlock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT i.product_id FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE _order_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.vendor_id, p.name, p.price, p.stock, sum(i.quantity)::integer AS quantity
+  FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  JOIN public.products p ON p.id = i.product_id
+  GROUP BY p.id, p.vendor_id, p.name, p.price, p.stock;
+
+  IF NOT EXISTS (SELECT 1 FROM _order_lines) THEN
+    RAISE EXCEPTION 'Your order has no available products';
+  END IF;
+
+  IF (SELECT count(*) FROM _order_lines) <> (
+    SELECT count(DISTINCT i.product_id) FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  ) THEN
+    RAISE EXCEPTION 'Some products in your order are no longer available';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', l.product_id,
+    'name', l.name,
+    'requested', l.quantity,
+    'available', l.stock
+  ))
+  INTO _shortages
+  FROM _order_lines l
+  WHERE l.quantity > l.stock;
+
+  IF _shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'Some items in your order are out of stock'
+      USING HINT = 'out_of_stock', DETAIL = _shortages::text;
+  END IF;
+
+  SELECT sum(price * quantity) INTO _total FROM _order_lines;
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _total THEN
+    RAISE EXCEPTION 'Prices have changed since you loaded checkout. Please review your order.';
+  END IF;
+
+  UPDATE public.products p
+  SET stock = p.stock - l.quantity
+  FROM _order_lines l
+  WHERE p.id = l.product_id;
+
+  INSERT INTO public.order_groups (customer_id, delivery_address, customer_phone, total_amount, payment_method)
+  VALUES (_customer_id, _delivery_address, trim(_customer_phone), _total, COALESCE(_payment_method, 'online'))
+  RETURNING id INTO _group_id;
+
+  FOR _vendor_id IN SELECT DISTINCT vendor_id FROM _order_lines LOOP
+    INSERT INTO public.orders (order_group_id, customer_id, vendor_id, total_amount, delivery_address, customer_phone, cash_due)
+    SELECT
+      _group_id, _customer_id, _vendor_id, sum(l.price * l.quantity), _delivery_address, trim(_customer_phone),
+      CASE WHEN _payment_method = 'cash_on_delivery' THEN sum(l.price * l.quantity) ELSE 0 END
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity)
+    SELECT _order_id, l.product_id, l.name, l.price, l.quantity
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id;
+  END LOOP;
+
+  DELETE FROM public.cart_items
+  WHERE customer_id = _customer_id
+    AND product_id IN (SELECT product_id FROM _order_lines);
+
+  DROP TABLE _order_lines;
+
+  RETURN _group_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text, numeric, public.payment_method) TO authenticated;
+
+-- A cash on delivery order can't be delivered until its rider has confirmed the cash
+CREATE OR REPLACE FUNCTION public.enforce_cash_collection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND NEW.cash_due > 0 AND NEW.cash_collected_at IS NULL THEN
+    RAISE EXCEPTION 'Confirm the ₦% cash collected before marking this order delivered', NEW.cash_due;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_enforce_cash_collection
+BEFORE UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_cash_collection();
+
+-- Rider confirms they received exactly the cash due for a shipment in transit.
+-- The checkout counts as paid once every cash shipment in it has been collected.
+CREATE OR REPLACE FUNCTION public.confirm_cash_collection(_order_id uuid, _amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND rider_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.cash_due = 0 THEN
+    RAISE EXCEPTION 'This order was paid online; there is no cash to collect';
+  END IF;
+
+  IF _order.cash_collected_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cash for this order has already been confirmed';
+  END IF;
+
+  IF _order.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Cash can only be collected while the order is in transit';
+  END IF;
+
+  IF _amount IS DISTINCT FROM _order.cash_due THEN
+    RAISE EXCEPTION 'Collect exactly ₦% from the customer', _order.cash_due;
+  END IF;
+
+  UPDATE public.orders SET cash_collected_at = now() WHERE id = _order.id;
+
+  INSERT INTO public.rider_cash_ledger (rider_id, vendor_id, order_id, amount)
+  VALUES (_order.rider_id, _order.vendor_id, _order.id, _amount);
+
+  UPDATE public.order_groups g
+  SET payment_status = 'paid', paid_at = now()
+  WHERE g.id = _order.order_group_id
+    AND g.payment_status <> 'paid'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.order_group_id = g.id
+        AND o.cash_due > 0
+        AND o.cash_collected_at IS NULL
+        AND o.status <> 'cancelled'
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_cash_collection(uuid, numeric) TO authenticated;
+
+-- Outstanding cash per rider for the calling vendor's orders
+CREATE OR REPLACE FUNCTION public.get_rider_cash_balances()
+RETURNS TABLE (
+  rider_id uuid,
+  rider_name text,
+  rider_phone text,
+  outstanding_amount numeric,
+  outstanding_orders bigint,
+  oldest_collected_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.rider_id,
+    p.full_name,
+    p.phone,
+    sum(l.amount),
+    count(*),
+    min(l.collected_at)
+  FROM public.rider_cash_ledger l
+  LEFT JOIN public.profiles p ON p.id = l.rider_id
+  WHERE l.vendor_id = auth.uid()
+    AND l.remitted_at IS NULL
+    AND has_role(auth.uid(), 'vendor')
+  GROUP BY l.rider_id, p.full_name, p.phone
+  ORDER BY min(l.collected_at)
+$$;
+
+-- Vendor confirms a rider has handed over all outstanding cash for their orders.
+-- Returns the amount settled.
+CREATE OR REPLACE FUNCTION public.confirm_cash_remittance(_rider_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settled numeric;
+BEGIN
+  IF NOT has_role(auth.uid(), 'vendor') THEN
+    RAISE EXCEPTION 'Vendor account required';
+  END IF;
+
+  WITH settled AS (
+    UPDATE public.rider_cash_ledger
+    SET remitted_at = now(), remittance_confirmed_by = auth.uid()
+    WHERE rider_id = _rider_id
+      AND vendor_id = auth.uid()
+      AND remitted_at IS NULL
+    RETURNING amount
+  )
+  SELECT COALESCE(sum(amount), 0) INTO _settled FROM settled;
+
+  RETURN _settled;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_cash_remittance(uuid) TO authenticated;
@@ -0,0 +1,169 @@
+-- Vendor and rider roles are granted by reviewing an application, never from
+-- the role a client puts in signup metadata.
+CREATE TYPE public.application_status AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE TABLE public.role_applications (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL CHECK (role IN ('vendor', 'rider')),
+  status public.application_status NOT NULL DEFAULT 'pending',
+  rejection_reason text,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+CREATE INDEX role_applications_pending_idx ON public.role_applications (created_at) WHERE status = 'pending';
+
+ALTER TABLE public.role_applications ENABLE ROW LEVEL SECURITY;
+
+-- Applications are only written by the functions below
+CREATE POLICY "Users can view their own applications"
+ON public.role_applications
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE TRIGGER update_role_applications_updated_at
+BEFORE UPDATE ON public.role_applications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every account starts as a customer; raw_user_meta_data is deliberately not consulted
+CREATE OR REPLACE FUNCTION public.assign_default_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'customer');
+  RETURN NEW;
+END;
+$$;
+
+-- Creating a vendor or rider profile is what applies for the role.
+-- TG_ARGV[0] is the role the profile table stands for.
+CREATE OR REPLACE FUNCTION public.submit_role_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.role_applications (user_id, role)
+  VALUES (NEW.user_id, TG_ARGV[0]::public.app_role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER vendor_profiles_submit_application
+AFTER INSERT ON public.vendor_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.submit_role_application('vendor');
+
+CREATE TRIGGER rider_profiles_submit_application
+AFTER INSERT ON public.rider_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.submit_role_application('rider');
+
+-- Lets an applicant ask for another review after updating a rejected profile
+CREATE OR REPLACE FUNCTION public.resubmit_role_application(_role public.app_role)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.role_applications
+  SET status = 'pending', rejection_reason = NULL, reviewed_by = NULL, reviewed_at = NULL
+  WHERE user_id = auth.uid()
+    AND role = _role
+    AND status = 'rejected';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only rejected applications can be resubmitted';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resubmit_role_application(public.app_role) TO authenticated;
+
+-- Approving swaps the applicant's customer role for the one applied for.
+-- Reviews are run by operators with the service role for now.
+CREATE OR REPLACE FUNCTION public.review_role_application(
+  _application_id uuid,
+  _approve boolean,
+  _rejection_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _application public.role_applications;
+BEGIN
+  SELECT * INTO _application
+  FROM public.role_applications
+  WHERE id = _application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF _application.status <> 'pending' THEN
+    RAISE EXCEPTION 'This application has already been reviewed';
+  END IF;
+
+  IF NOT _approve AND trim(COALESCE(_rejection_reason, '')) = '' THEN
+    RAISE EXCEPTION 'Give the applicant a reason for the rejection';
+  END IF;
+
+  UPDATE public.role_applications
+  SET status = CASE WHEN _approve THEN 'approved'::public.application_status ELSE 'rejected'::public.application_status END,
+      rejection_reason = CASE WHEN _approve THEN NULL ELSE trim(_rejection_reason) END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _application.id;
+
+  IF _approve THEN
+    UPDATE public.user_roles
+    SET role = _application.role
+    WHERE user_id = _application.user_id;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.user_roles (user_id, role)
+      VALUES (_application.user_id, _application.role);
+    END IF;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_role_application(uuid, boolean, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.review_role_application(uuid, boolean, text) TO service_role;
+
+-- Existing profiles become applications; those whose role was already granted count as approved
+INSERT INTO public.role_applications (user_id, role, status, reviewed_at)
+SELECT
+  v.user_id,
+  'vendor',
+  CASE WHEN public.has_role(v.user_id, 'vendor') THEN 'approved'::public.application_status ELSE 'pending'::public.application_status END,
+  CASE WHEN public.has_role(v.user_id, 'vendor') THEN now() END
+FROM public.vendor_profiles v
+ON CONFLICT (user_id, role) DO NOTHING;
+
+INSERT INTO public.role_applications (user_id, role, status, reviewed_at)
+SELECT
+  r.user_id,
+  'rider',
+  CASE WHEN public.has_role(r.user_id, 'rider') THEN 'approved'::public.application_status ELSE 'pending'::public.application_status END,
+  CASE WHEN public.has_role(r.user_id, 'rider') THEN now() END
+FROM public.rider_profiles r
+ON CONFLICT (user_id, role) DO NOTHING;
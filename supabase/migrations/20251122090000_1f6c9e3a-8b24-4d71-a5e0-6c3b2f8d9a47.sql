@@ -0,0 +1,2 @@
+-- Marketplace moderators. Added on its own so later migrations can use the value.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'admin';
@@ -0,0 +1,390 @@
+-- Suspended accounts keep their data but lose every role-based permission
+CREATE TABLE public.account_suspensions (
+  user_id uuid NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason text NOT NULL,
+  suspended_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  suspended_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_suspensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own suspension"
+ON public.account_suspensions
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage suspensions"
+ON public.account_suspensions
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+-- Every RLS policy and RPC checks roles through here, so a suspension applies everywhere at once
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.account_suspensions
+    WHERE user_id = _user_id
+  )
+$$;
+
+-- Admins can read and moderate everything on the marketplace
+CREATE POLICY "Admins can manage products"
+ON public.products
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage orders"
+ON public.orders
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage vendor profiles"
+ON public.vendor_profiles
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage rider profiles"
+ON public.rider_profiles
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage user roles"
+ON public.user_roles
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view order groups"
+ON public.order_groups
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view order items"
+ON public.order_items
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view payments"
+ON public.payments
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view role applications"
+ON public.role_applications
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view the rider cash ledger"
+ON public.rider_cash_ledger
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- Applications are now reviewed by admins from the console
+CREATE OR REPLACE FUNCTION public.review_role_application(
+  _application_id uuid,
+  _approve boolean,
+  _rejection_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _application public.role_applications;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO _application
+  FROM public.role_applications
+  WHERE id = _application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF _application.status <> 'pending' THEN
+    RAISE EXCEPTION 'This application has already been reviewed';
+  END IF;
+
+  IF NOT _approve AND trim(COALESCE(_rejection_reason, '')) = '' THEN
+    RAISE EXCEPTION 'Give the applicant a reason for the rejection';
+  END IF;
+
+  UPDATE public.role_applications
+  SET status = CASE WHEN _approve THEN 'approved'::public.application_status ELSE 'rejected'::public.application_status END,
+      rejection_reason = CASE WHEN _approve THEN NULL ELSE trim(_rejection_reason) END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _application.id;
+
+  IF _approve THEN
+    UPDATE public.user_roles
+    SET role = _application.role
+    WHERE user_id = _application.user_id;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.user_roles (user_id, role)
+      VALUES (_application.user_id, _application.role);
+    END IF;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_role_application(uuid, boolean, text) TO authenticated;
+
+-- Accounts with their contact details and moderation state, for the admin console
+CREATE OR REPLACE FUNCTION public.admin_list_users()
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  phone text,
+  roles public.app_role[],
+  suspended_at timestamptz,
+  suspension_reason text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::text,
+    p.full_name,
+    p.phone,
+    COALESCE(array_agg(r.role ORDER BY r.role) FILTER (WHERE r.role IS NOT NULL), '{}'),
+    s.suspended_at,
+    s.reason,
+    u.created_at
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  LEFT JOIN public.account_suspensions s ON s.user_id = u.id
+  GROUP BY u.id, u.email, p.full_name, p.phone, s.suspended_at, s.reason, u.created_at
+  ORDER BY u.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_list_users() TO authenticated;
+
+-- Pending applications with the profile details submitted alongside them
+CREATE OR REPLACE FUNCTION public.admin_list_role_applications(_status public.application_status DEFAULT 'pending')
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  role public.app_role,
+  status public.application_status,
+  email text,
+  full_name text,
+  phone text,
+  details jsonb,
+  rejection_reason text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.user_id,
+    a.role,
+    a.status,
+    u.email::text,
+    p.full_name,
+    p.phone,
+    CASE a.role
+      WHEN 'vendor' THEN (
+        SELECT jsonb_build_object(
+          'business_name', v.business_name,
+          'business_address', v.business_address,
+          'business_phone', v.business_phone,
+          'business_description', v.business_description
+        )
+        FROM public.vendor_profiles v WHERE v.user_id = a.user_id
+      )
+      WHEN 'rider' THEN (
+        SELECT jsonb_build_object(
+          'vehicle_type', rp.vehicle_type,
+          'vehicle_plate_number', rp.vehicle_plate_number,
+          'license_number', rp.license_number,
+          'emergency_contact', rp.emergency_contact
+        )
+        FROM public.rider_profiles rp WHERE rp.user_id = a.user_id
+      )
+    END,
+    a.rejection_reason,
+    a.created_at
+  FROM public.role_applications a
+  JOIN auth.users u ON u.id = a.user_id
+  LEFT JOIN public.profiles p ON p.id = a.user_id
+  WHERE a.status = _status
+  ORDER BY a.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_list_role_applications(public.application_status) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.admin_set_suspension(_user_id uuid, _suspended boolean, _reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot suspend your own account';
+  END IF;
+
+  IF _suspended THEN
+    IF trim(COALESCE(_reason, '')) = '' THEN
+      RAISE EXCEPTION 'A reason is required to suspend an account';
+    END IF;
+
+    INSERT INTO public.account_suspensions (user_id, reason, suspended_by)
+    VALUES (_user_id, trim(_reason), auth.uid())
+    ON CONFLICT (user_id) DO UPDATE
+    SET reason = EXCLUDED.reason, suspended_by = EXCLUDED.suspended_by, suspended_at = now();
+  ELSE
+    DELETE FROM public.account_suspensions WHERE user_id = _user_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_set_suspension(uuid, boolean, text) TO authenticated;
+
+-- Cancelling puts stock back through orders_restore_cancelled_stock
+CREATE OR REPLACE FUNCTION public.admin_cancel_order(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+    AND status NOT IN ('delivered', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only orders that are still open can be cancelled';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_cancel_order(uuid) TO authenticated;
+
+-- Hands an open order to another rider; a pending order counts as accepted by them
+CREATE OR REPLACE FUNCTION public.admin_reassign_order(_order_id uuid, _rider_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NOT has_role(_rider_id, 'rider') THEN
+    RAISE EXCEPTION 'Orders can only be assigned to active riders';
+  END IF;
+
+  UPDATE public.orders
+  SET rider_id = _rider_id,
+      status = CASE WHEN status = 'pending' THEN 'accepted'::public.order_status ELSE status END
+  WHERE id = _order_id
+    AND status NOT IN ('delivered', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only orders that are still open can be reassigned';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_reassign_order(uuid, uuid) TO authenticated;
+
+-- Admins see every rider's outstanding cash, across all vendors
+CREATE OR REPLACE FUNCTION public.get_rider_cash_balances()
+RETURNS TABLE (
+  rider_id uuid,
+  rider_name text,
+  rider_phone text,
+  outstanding_amount numeric,
+  outstanding_orders bigint,
+  oldest_collected_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.rider_id,
+    p.full_name,
+    p.phone,
+    sum(l.amount),
+    count(*),
+    min(l.collected_at)
+  FROM public.rider_cash_ledger l
+  LEFT JOIN public.profiles p ON p.id = l.rider_id
+  WHERE l.remitted_at IS NULL
+    AND (
+      (l.vendor_id = auth.uid() AND has_role(auth.uid(), 'vendor'))
+      OR has_role(auth.uid(), 'admin')
+    )
+  GROUP BY l.rider_id, p.full_name, p.phone
+  ORDER BY min(l.collected_at)
+$$;
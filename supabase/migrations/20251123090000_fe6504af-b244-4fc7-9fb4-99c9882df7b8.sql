@@ -0,0 +1,60 @@
+-- Users can hold several roles, e.g. a vendor who also shops as a customer
+CREATE UNIQUE INDEX IF NOT EXISTS user_roles_user_id_role_key ON public.user_roles (user_id, role);
+
+CREATE OR REPLACE FUNCTION public.review_role_application(
+  _application_id uuid,
+  _approve boolean,
+  _rejection_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _application public.role_applications;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO _application
+  FROM public.role_applications
+  WHERE id = _application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF _application.status <> 'pending' THEN
+    RAISE EXCEPTION 'This application has already been reviewed';
+  END IF;
+
+  IF NOT _approve AND trim(COALESCE(_rejection_reason, '')) = '' THEN
+    RAISE EXCEPTION 'Give the applicant a reason for the rejection';
+  END IF;
+
+  UPDATE public.role_applications
+  SET status = CASE WHEN _approve THEN 'approved'::public.application_status ELSE 'rejected'::public.application_status END,
+      rejection_reason = CASE WHEN _approve THEN NULL ELSE trim(_rejection_reason) END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _application.id;
+
+  -- The new role is added alongside the ones the user already holds
+  IF _approve THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_application.user_id, _application.role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Approved vendors and riders had their customer role replaced; give it back
+INSERT INTO public.user_roles (user_id, role)
+SELECT DISTINCT user_id, 'customer'::public.app_role
+FROM public.user_roles
+WHERE role IN ('vendor', 'rider')
+ON CONFLICT (user_id, role) DO NOTHING;
+
@@ -0,0 +1,13 @@
+-- Text messages captured by the send-sms development stand-in instead of being delivered.
+-- Only the service role reads it (local tooling and tests looking up one-time codes).
+CREATE TABLE public.sms_outbox (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone text NOT NULL,
+  message text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX sms_outbox_phone_created_at_idx ON public.sms_outbox (phone, created_at DESC);
+
+ALTER TABLE public.sms_outbox ENABLE ROW LEVEL SECURITY;
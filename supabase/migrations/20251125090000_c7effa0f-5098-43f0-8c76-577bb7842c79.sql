@@ -0,0 +1,51 @@
+-- Vendor and rider signups send their business or vehicle details as signup metadata so the
+-- application exists even when the account has no session until its email is confirmed.
+-- This only creates the profile; submit_role_application turns it into a pending application
+-- and the role itself is still granted by review.
+CREATE OR REPLACE FUNCTION public.create_role_profile_from_signup()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _vendor jsonb := NEW.raw_user_meta_data -> 'vendor_profile';
+  _rider jsonb := NEW.raw_user_meta_data -> 'rider_profile';
+BEGIN
+  IF jsonb_typeof(_vendor) = 'object'
+    AND NULLIF(trim(_vendor ->> 'business_name'), '') IS NOT NULL
+    AND NULLIF(trim(_vendor ->> 'business_address'), '') IS NOT NULL
+    AND NULLIF(trim(_vendor ->> 'business_phone'), '') IS NOT NULL
+  THEN
+    INSERT INTO public.vendor_profiles (user_id, business_name, business_address, business_phone, business_description)
+    VALUES (
+      NEW.id,
+      left(trim(_vendor ->> 'business_name'), 100),
+      left(trim(_vendor ->> 'business_address'), 200),
+      left(trim(_vendor ->> 'business_phone'), 20),
+      NULLIF(left(trim(_vendor ->> 'business_description'), 1000), '')
+    );
+  END IF;
+
+  IF jsonb_typeof(_rider) = 'object'
+    AND NULLIF(trim(_rider ->> 'vehicle_type'), '') IS NOT NULL
+    AND NULLIF(trim(_rider ->> 'vehicle_plate_number'), '') IS NOT NULL
+  THEN
+    INSERT INTO public.rider_profiles (user_id, vehicle_type, vehicle_plate_number, license_number, emergency_contact)
+    VALUES (
+      NEW.id,
+      left(trim(_rider ->> 'vehicle_type'), 50),
+      left(trim(_rider ->> 'vehicle_plate_number'), 20),
+      NULLIF(left(trim(_rider ->> 'license_number'), 50), ''),
+      NULLIF(left(trim(_rider ->> 'emergency_contact'), 20), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_role_profile
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.create_role_profile_from_signup();
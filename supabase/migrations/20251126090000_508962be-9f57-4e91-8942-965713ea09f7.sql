@@ -0,0 +1,89 @@
+-- Profile picture and notification preferences for the account page
+ALTER TABLE public.profiles
+  ADD COLUMN avatar_url text,
+  ADD COLUMN notify_order_email boolean NOT NULL DEFAULT true,
+  ADD COLUMN notify_order_sms boolean NOT NULL DEFAULT true,
+  ADD COLUMN notify_promotions boolean NOT NULL DEFAULT false;
+
+-- Every account gets a profile, filled from what it signed up with.
+-- Phone sign-ups carry the number on the user itself (without the leading +).
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, phone)
+  VALUES (
+    NEW.id,
+    NULLIF(trim(NEW.raw_user_meta_data ->> 'full_name'), ''),
+    COALESCE(
+      NULLIF(trim(NEW.raw_user_meta_data ->> 'phone'), ''),
+      CASE WHEN NULLIF(NEW.phone, '') IS NOT NULL THEN '+' || NEW.phone END
+    )
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user();
+
+-- Accounts created before the trigger
+INSERT INTO public.profiles (id, full_name, phone)
+SELECT
+  u.id,
+  NULLIF(trim(u.raw_user_meta_data ->> 'full_name'), ''),
+  COALESCE(
+    NULLIF(trim(u.raw_user_meta_data ->> 'phone'), ''),
+    CASE WHEN NULLIF(u.phone, '') IS NOT NULL THEN '+' || u.phone END
+  )
+FROM auth.users u
+ON CONFLICT (id) DO UPDATE
+SET full_name = COALESCE(public.profiles.full_name, EXCLUDED.full_name),
+    phone = COALESCE(public.profiles.phone, EXCLUDED.phone);
+
+-- Profile pictures, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view avatars"
+ON storage.objects
+FOR SELECT
+TO public
+USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'avatars' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can replace their own avatar"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'avatars' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'avatars' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,212 @@
+-- Storefront branding and a unique slug for each vendor's public page
+ALTER TABLE public.vendor_profiles
+  ADD COLUMN slug text,
+  ADD COLUMN logo_url text,
+  ADD COLUMN banner_url text;
+
+-- Lowercase words joined by hyphens, e.g. "Mama Put & Sons" -> "mama-put-sons"
+CREATE OR REPLACE FUNCTION public.slugify(_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(both '-' from regexp_replace(lower(coalesce(_value, '')), '[^a-z0-9]+', '-', 'g'))
+$$;
+
+-- Slug for a business name, numbered when another vendor already has it
+CREATE OR REPLACE FUNCTION public.generate_vendor_slug(_business_name text, _user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _base text := COALESCE(NULLIF(public.slugify(_business_name), ''), 'store');
+  _candidate text := _base;
+  _suffix integer := 1;
+BEGIN
+  WHILE EXISTS (
+    SELECT 1 FROM public.vendor_profiles
+    WHERE slug = _candidate AND user_id <> _user_id
+  ) LOOP
+    _suffix := _suffix + 1;
+    _candidate := _base || '-' || _suffix;
+  END LOOP;
+
+  RETURN _candidate;
+END;
+$$;
+
+-- The slug follows the business name and can't be set directly
+CREATE OR REPLACE FUNCTION public.set_vendor_slug()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.business_name IS DISTINCT FROM OLD.business_name OR OLD.slug IS NULL THEN
+    NEW.slug := public.generate_vendor_slug(NEW.business_name, NEW.user_id);
+  ELSE
+    NEW.slug := OLD.slug;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Vendors who signed up before slugs, oldest first so they keep the plain name
+DO $$
+DECLARE
+  _vendor record;
+BEGIN
+  FOR _vendor IN
+    SELECT id, user_id, business_name FROM public.vendor_profiles ORDER BY created_at, id
+  LOOP
+    UPDATE public.vendor_profiles
+    SET slug = public.generate_vendor_slug(_vendor.business_name, _vendor.user_id)
+    WHERE id = _vendor.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.vendor_profiles
+  ALTER COLUMN slug SET NOT NULL,
+  ADD CONSTRAINT vendor_profiles_slug_key UNIQUE (slug);
+
+CREATE TRIGGER vendor_profiles_set_slug
+BEFORE INSERT OR UPDATE ON public.vendor_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.set_vendor_slug();
+
+-- The public profile now carries what's needed to link to the storefront
+DROP FUNCTION public.get_vendor_public_profile(uuid);
+
+CREATE FUNCTION public.get_vendor_public_profile(_vendor_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  business_name text,
+  business_description text,
+  slug text,
+  logo_url text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    v.user_id,
+    v.business_name,
+    v.business_description,
+    v.slug,
+    v.logo_url
+  FROM public.vendor_profiles v
+  WHERE v.user_id = _vendor_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_vendor_public_profile(uuid) TO anon, authenticated;
+
+-- Public storefront header: business details, product ratings and how
+-- reliably the vendor's orders reach customers. Only approved vendors in good
+-- standing have a storefront.
+CREATE OR REPLACE FUNCTION public.get_vendor_storefront(_slug text)
+RETURNS TABLE (
+  user_id uuid,
+  slug text,
+  business_name text,
+  business_description text,
+  logo_url text,
+  banner_url text,
+  member_since timestamptz,
+  product_count integer,
+  rating_average numeric,
+  rating_count integer,
+  orders_delivered integer,
+  fulfilment_rate numeric,
+  average_delivery_minutes integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    v.user_id,
+    v.slug,
+    v.business_name,
+    v.business_description,
+    v.logo_url,
+    v.banner_url,
+    v.created_at,
+    COALESCE(p.product_count, 0)::integer,
+    COALESCE(round(p.rating_total / NULLIF(p.rating_count, 0), 2), 0),
+    COALESCE(p.rating_count, 0)::integer,
+    COALESCE(o.delivered, 0)::integer,
+    round(o.delivered::numeric / NULLIF(o.delivered + o.cancelled, 0), 2),
+    o.average_delivery_minutes::integer
+  FROM public.vendor_profiles v
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) AS product_count,
+      sum(pr.rating_average * pr.rating_count) AS rating_total,
+      sum(pr.rating_count) AS rating_count
+    FROM public.products pr
+    WHERE pr.vendor_id = v.user_id
+  ) p ON true
+  -- Settled orders from the last 90 days. Delivered orders stop changing at
+  -- delivery, so updated_at stands in for the delivery time.
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE od.status = 'delivered') AS delivered,
+      count(*) FILTER (WHERE od.status = 'cancelled') AS cancelled,
+      avg(extract(epoch FROM od.updated_at - od.created_at) / 60)
+        FILTER (WHERE od.status = 'delivered') AS average_delivery_minutes
+    FROM public.orders od
+    WHERE od.vendor_id = v.user_id
+      AND od.status IN ('delivered', 'cancelled')
+      AND od.created_at > now() - interval '90 days'
+  ) o ON true
+  WHERE v.slug = _slug
+    AND public.has_role(v.user_id, 'vendor')
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_vendor_storefront(text) TO anon, authenticated;
+
+-- Logos and banners, one folder per vendor
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('vendor-assets', 'vendor-assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view vendor assets"
+ON storage.objects
+FOR SELECT
+TO public
+USING (bucket_id = 'vendor-assets');
+
+CREATE POLICY "Vendors can upload their own assets"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'vendor-assets' AND
+  (storage.foldername(name))[1] = auth.uid()::text AND
+  public.has_role(auth.uid(), 'vendor')
+);
+
+CREATE POLICY "Vendors can replace their own assets"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'vendor-assets' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Vendors can delete their own assets"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'vendor-assets' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,370 @@
+-- Rider verification: riders upload their licence and vehicle papers and an
+-- admin checks them before the rider can take deliveries
+CREATE TYPE public.rider_verification_status AS ENUM ('unverified', 'pending', 'verified', 'rejected');
+
+CREATE TYPE public.rider_document_type AS ENUM ('drivers_licence', 'vehicle_registration', 'vehicle_photo');
+
+-- Existing riders start unverified and upload their documents like everyone else
+ALTER TABLE public.rider_profiles
+  ADD COLUMN verification_status public.rider_verification_status NOT NULL DEFAULT 'unverified',
+  ADD COLUMN verification_note text,
+  ADD COLUMN verification_submitted_at timestamptz,
+  ADD COLUMN verified_at timestamptz;
+
+-- Riders edit their vehicle details; verification is only changed through the RPCs below
+REVOKE INSERT, UPDATE ON public.rider_profiles FROM anon, authenticated;
+
+GRANT INSERT (user_id, vehicle_type, vehicle_plate_number, license_number, emergency_contact)
+ON public.rider_profiles TO authenticated;
+
+GRANT UPDATE (vehicle_type, vehicle_plate_number, license_number, emergency_contact)
+ON public.rider_profiles TO authenticated;
+
+-- One current file per document type; the file itself lives in the rider-documents bucket
+CREATE TABLE public.rider_documents (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rider_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_type public.rider_document_type NOT NULL,
+  storage_path text NOT NULL,
+  file_name text,
+  uploaded_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (rider_id, document_type)
+);
+
+ALTER TABLE public.rider_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Riders can view their own documents"
+ON public.rider_documents
+FOR SELECT
+TO authenticated
+USING (rider_id = auth.uid());
+
+CREATE POLICY "Riders can add their own documents"
+ON public.rider_documents
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  rider_id = auth.uid() AND
+  storage_path LIKE auth.uid()::text || '/%' AND
+  EXISTS (SELECT 1 FROM public.rider_profiles rp WHERE rp.user_id = auth.uid())
+);
+
+CREATE POLICY "Riders can replace their own documents"
+ON public.rider_documents
+FOR UPDATE
+TO authenticated
+USING (rider_id = auth.uid())
+WITH CHECK (
+  rider_id = auth.uid() AND
+  storage_path LIKE auth.uid()::text || '/%'
+);
+
+CREATE POLICY "Riders can remove their own documents"
+ON public.rider_documents
+FOR DELETE
+TO authenticated
+USING (rider_id = auth.uid());
+
+CREATE POLICY "Admins can view rider documents"
+ON public.rider_documents
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- A verified rider who changes their vehicle or papers goes back for review
+CREATE OR REPLACE FUNCTION public.reopen_rider_verification_on_profile_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.verification_status = 'verified' AND
+     (NEW.vehicle_type, NEW.vehicle_plate_number, NEW.license_number)
+       IS DISTINCT FROM (OLD.vehicle_type, OLD.vehicle_plate_number, OLD.license_number) THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_submitted_at := now();
+    NEW.verified_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rider_profiles_reopen_verification
+BEFORE UPDATE ON public.rider_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.reopen_rider_verification_on_profile_change();
+
+CREATE OR REPLACE FUNCTION public.reopen_rider_verification_on_document_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rider_id uuid := COALESCE(NEW.rider_id, OLD.rider_id);
+BEGIN
+  UPDATE public.rider_profiles
+  SET verification_status = 'pending',
+      verification_submitted_at = now(),
+      verified_at = NULL
+  WHERE user_id = _rider_id
+    AND verification_status = 'verified';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rider_documents_reopen_verification
+AFTER INSERT OR UPDATE OR DELETE ON public.rider_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.reopen_rider_verification_on_document_change();
+
+CREATE OR REPLACE FUNCTION public.is_rider_verified(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.rider_profiles
+    WHERE user_id = _user_id
+      AND verification_status = 'verified'
+  )
+$$;
+
+-- Sends the rider's documents for review once the required ones are uploaded
+CREATE OR REPLACE FUNCTION public.submit_rider_verification()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status public.rider_verification_status;
+BEGIN
+  SELECT verification_status INTO _status
+  FROM public.rider_profiles
+  WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only riders can submit documents for verification';
+  END IF;
+
+  IF _status = 'pending' THEN
+    RAISE EXCEPTION 'Your documents are already being reviewed';
+  ELSIF _status = 'verified' THEN
+    RAISE EXCEPTION 'Your account is already verified';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rider_documents
+    WHERE rider_id = auth.uid() AND document_type = 'drivers_licence'
+  ) OR NOT EXISTS (
+    SELECT 1 FROM public.rider_documents
+    WHERE rider_id = auth.uid() AND document_type = 'vehicle_registration'
+  ) THEN
+    RAISE EXCEPTION 'Upload your driver''s licence and vehicle registration before submitting';
+  END IF;
+
+  UPDATE public.rider_profiles
+  SET verification_status = 'pending',
+      verification_submitted_at = now(),
+      verification_note = NULL
+  WHERE user_id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_rider_verification() TO authenticated;
+
+-- Riders waiting on a decision, with the documents they uploaded
+CREATE OR REPLACE FUNCTION public.admin_list_rider_verifications(
+  _status public.rider_verification_status DEFAULT 'pending'
+)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  phone text,
+  vehicle_type text,
+  vehicle_plate_number text,
+  license_number text,
+  verification_status public.rider_verification_status,
+  verification_note text,
+  verification_submitted_at timestamptz,
+  documents jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    rp.user_id,
+    u.email::text,
+    p.full_name,
+    p.phone,
+    rp.vehicle_type,
+    rp.vehicle_plate_number,
+    rp.license_number,
+    rp.verification_status,
+    rp.verification_note,
+    rp.verification_submitted_at,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'document_type', d.document_type,
+          'storage_path', d.storage_path,
+          'file_name', d.file_name,
+          'uploaded_at', d.uploaded_at
+        )
+        ORDER BY d.document_type
+      )
+      FROM public.rider_documents d
+      WHERE d.rider_id = rp.user_id
+    ), '[]'::jsonb)
+  FROM public.rider_profiles rp
+  JOIN auth.users u ON u.id = rp.user_id
+  LEFT JOIN public.profiles p ON p.id = rp.user_id
+  WHERE rp.verification_status = _status
+  ORDER BY rp.verification_submitted_at NULLS LAST, rp.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_list_rider_verifications(public.rider_verification_status) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.admin_review_rider_verification(
+  _rider_id uuid,
+  _approve boolean,
+  _note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NOT _approve AND trim(COALESCE(_note, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a rider''s documents';
+  END IF;
+
+  UPDATE public.rider_profiles
+  SET verification_status = CASE WHEN _approve THEN 'verified' ELSE 'rejected' END::public.rider_verification_status,
+      verification_note = NULLIF(trim(COALESCE(_note, '')), ''),
+      verified_at = CASE WHEN _approve THEN now() END
+  WHERE user_id = _rider_id
+    AND verification_status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This rider has no documents waiting for review';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_review_rider_verification(uuid, boolean, text) TO authenticated;
+
+-- Only verified riders can take orders
+DROP POLICY IF EXISTS "Riders can accept orders" ON public.orders;
+
+CREATE POLICY "Riders can accept orders"
+ON public.orders
+FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'rider') AND
+  public.is_rider_verified(auth.uid()) AND
+  status = 'pending' AND
+  rider_id IS NULL AND
+  public.is_order_group_dispatchable(order_group_id)
+);
+
+CREATE OR REPLACE FUNCTION public.admin_reassign_order(_order_id uuid, _rider_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NOT has_role(_rider_id, 'rider') THEN
+    RAISE EXCEPTION 'Orders can only be assigned to active riders';
+  END IF;
+
+  IF NOT public.is_rider_verified(_rider_id) THEN
+    RAISE EXCEPTION 'Orders can only be assigned to verified riders';
+  END IF;
+
+  UPDATE public.orders
+  SET rider_id = _rider_id,
+      status = CASE WHEN status = 'pending' THEN 'accepted'::public.order_status ELSE status END
+  WHERE id = _order_id
+    AND status NOT IN ('delivered', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only orders that are still open can be reassigned';
+  END IF;
+END;
+$$;
+
+-- Licence and vehicle papers, one private folder per rider
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('rider-documents', 'rider-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Riders can view their own documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'rider-documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Admins can view rider documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'rider-documents' AND
+  has_role(auth.uid(), 'admin')
+);
+
+CREATE POLICY "Riders can upload their own documents"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'rider-documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Riders can replace their own documents"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'rider-documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Riders can delete their own documents"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'rider-documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,692 @@
+-- Proximity dispatch: each order is offered to the nearest available riders in
+-- waves, each with a short accept window, widening the radius until someone
+-- takes it. Orders nobody nearby accepts fall back to every rider.
+
+-- Pickup is the vendor's premises, drop-off the customer's saved address.
+-- Coordinates are optional; orders without a pickup point skip straight to the fallback.
+ALTER TABLE public.vendor_profiles
+  ADD COLUMN latitude double precision,
+  ADD COLUMN longitude double precision;
+
+ALTER TABLE public.customer_addresses
+  ADD COLUMN latitude double precision,
+  ADD COLUMN longitude double precision;
+
+ALTER TABLE public.orders
+  ADD COLUMN pickup_latitude double precision,
+  ADD COLUMN pickup_longitude double precision,
+  ADD COLUMN dropoff_latitude double precision,
+  ADD COLUMN dropoff_longitude double precision,
+  ADD COLUMN dispatch_wave integer NOT NULL DEFAULT 0,
+  ADD COLUMN dispatched_at timestamptz;
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(
+  _from_latitude double precision,
+  _from_longitude double precision,
+  _to_latitude double precision,
+  _to_longitude double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(_to_latitude - _from_latitude) / 2), 2) +
+    cos(radians(_from_latitude)) * cos(radians(_to_latitude)) *
+    power(sin(radians(_to_longitude - _from_longitude) / 2), 2)
+  ))
+$$;
+
+-- How far each wave reaches, how many riders it asks and how long they have to answer
+CREATE TABLE public.dispatch_waves (
+  wave integer NOT NULL PRIMARY KEY CHECK (wave > 0),
+  radius_km numeric(5, 1) NOT NULL CHECK (radius_km > 0),
+  max_offers integer NOT NULL CHECK (max_offers > 0),
+  accept_seconds integer NOT NULL CHECK (accept_seconds > 0)
+);
+
+ALTER TABLE public.dispatch_waves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view dispatch waves"
+ON public.dispatch_waves
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage dispatch waves"
+ON public.dispatch_waves
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.dispatch_waves (wave, radius_km, max_offers, accept_seconds) VALUES
+  (1, 3, 3, 45),
+  (2, 6, 5, 45),
+  (3, 12, 10, 60);
+
+-- Whether a rider wants offers, and where they were last seen
+CREATE TABLE public.rider_availability (
+  rider_id uuid NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  is_available boolean NOT NULL DEFAULT false,
+  latitude double precision,
+  longitude double precision,
+  location_updated_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rider_availability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Riders can view their own availability"
+ON public.rider_availability
+FOR SELECT
+TO authenticated
+USING (rider_id = auth.uid());
+
+CREATE POLICY "Admins can view rider availability"
+ON public.rider_availability
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_rider_availability_updated_at
+BEFORE UPDATE ON public.rider_availability
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TYPE public.dispatch_offer_status AS ENUM ('offered', 'accepted', 'declined', 'expired', 'withdrawn');
+
+CREATE TABLE public.dispatch_offers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  rider_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wave integer NOT NULL,
+  distance_km numeric(6, 2),
+  status public.dispatch_offer_status NOT NULL DEFAULT 'offered',
+  offered_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  responded_at timestamptz,
+  UNIQUE (order_id, rider_id)
+);
+
+CREATE INDEX dispatch_offers_rider_status_idx ON public.dispatch_offers (rider_id, status);
+CREATE INDEX dispatch_offers_order_status_idx ON public.dispatch_offers (order_id, status);
+
+ALTER TABLE public.dispatch_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Riders can view their own offers"
+ON public.dispatch_offers
+FOR SELECT
+TO authenticated
+USING (rider_id = auth.uid());
+
+CREATE POLICY "Admins can view dispatch offers"
+ON public.dispatch_offers
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- Riders hear about new offers without polling
+ALTER PUBLICATION supabase_realtime ADD TABLE public.dispatch_offers;
+
+-- Riders go on and off duty here; the location is stamped with the server's clock
+CREATE OR REPLACE FUNCTION public.update_rider_availability(
+  _is_available boolean,
+  _latitude double precision DEFAULT NULL,
+  _longitude double precision DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'rider') THEN
+    RAISE EXCEPTION 'Only riders can go on duty';
+  END IF;
+
+  IF _is_available AND NOT public.is_rider_verified(auth.uid()) THEN
+    RAISE EXCEPTION 'Your account must be verified before you can take deliveries';
+  END IF;
+
+  IF (_latitude IS NULL) <> (_longitude IS NULL)
+     OR _latitude NOT BETWEEN -90 AND 90
+     OR _longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location';
+  END IF;
+
+  INSERT INTO public.rider_availability (rider_id, is_available, latitude, longitude, location_updated_at)
+  VALUES (auth.uid(), _is_available, _latitude, _longitude, CASE WHEN _latitude IS NOT NULL THEN now() END)
+  ON CONFLICT (rider_id) DO UPDATE
+  SET is_available = EXCLUDED.is_available,
+      latitude = COALESCE(EXCLUDED.latitude, public.rider_availability.latitude),
+      longitude = COALESCE(EXCLUDED.longitude, public.rider_availability.longitude),
+      location_updated_at = COALESCE(EXCLUDED.location_updated_at, public.rider_availability.location_updated_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_rider_availability(boolean, double precision, double precision) TO authenticated;
+
+-- Past the last wave an order is open to every rider
+CREATE OR REPLACE FUNCTION public.is_order_broadcast(_dispatch_wave integer)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _dispatch_wave > COALESCE((SELECT max(wave) FROM public.dispatch_waves), 0)
+$$;
+
+-- Sends the next wave of offers for an order and returns how many riders were
+-- asked. Waves that find nobody in range are skipped.
+CREATE OR REPLACE FUNCTION public.dispatch_order(_order_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _wave public.dispatch_waves%ROWTYPE;
+  _offered integer := 0;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR _order.status <> 'pending'
+     OR _order.rider_id IS NOT NULL
+     OR public.is_order_broadcast(_order.dispatch_wave)
+     OR NOT public.is_order_group_dispatchable(_order.order_group_id) THEN
+    RETURN 0;
+  END IF;
+
+  -- Whoever hasn't answered the previous wave has missed their window
+  UPDATE public.dispatch_offers
+  SET status = 'expired'
+  WHERE order_id = _order_id
+    AND status = 'offered';
+
+  -- Without a pickup point there's nothing to measure from
+  IF _order.pickup_latitude IS NULL OR _order.pickup_longitude IS NULL THEN
+    UPDATE public.orders
+    SET dispatch_wave = COALESCE((SELECT max(wave) FROM public.dispatch_waves), 0) + 1,
+        dispatched_at = now()
+    WHERE id = _order_id;
+    RETURN 0;
+  END IF;
+
+  LOOP
+    SELECT * INTO _wave
+    FROM public.dispatch_waves
+    WHERE wave > _order.dispatch_wave
+    ORDER BY wave
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      UPDATE public.orders
+      SET dispatch_wave = _order.dispatch_wave + 1,
+          dispatched_at = now()
+      WHERE id = _order_id;
+      RETURN 0;
+    END IF;
+
+    _order.dispatch_wave := _wave.wave;
+
+    -- Nearest verified riders on duty with a recent location, who aren't
+    -- already carrying an order and weren't asked about this one before
+    INSERT INTO public.dispatch_offers (order_id, rider_id, wave, distance_km, expires_at)
+    SELECT
+      _order_id,
+      nearby.rider_id,
+      _wave.wave,
+      round(nearby.distance::numeric, 2),
+      now() + make_interval(secs => _wave.accept_seconds)
+    FROM (
+      SELECT
+        ra.rider_id,
+        public.distance_km(ra.latitude, ra.longitude, _order.pickup_latitude, _order.pickup_longitude) AS distance
+      FROM public.rider_availability ra
+      WHERE ra.is_available
+        AND ra.latitude IS NOT NULL
+        AND ra.location_updated_at > now() - interval '10 minutes'
+        AND has_role(ra.rider_id, 'rider')
+        AND public.is_rider_verified(ra.rider_id)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.dispatch_offers d
+          WHERE d.order_id = _order_id AND d.rider_id = ra.rider_id
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM public.orders busy
+          WHERE busy.rider_id = ra.rider_id
+            AND busy.status IN ('accepted', 'in_transit')
+        )
+    ) nearby
+    WHERE nearby.distance <= _wave.radius_km
+    ORDER BY nearby.distance
+    LIMIT _wave.max_offers;
+
+    GET DIAGNOSTICS _offered = ROW_COUNT;
+
+    IF _offered > 0 THEN
+      UPDATE public.orders
+      SET dispatch_wave = _wave.wave,
+          dispatched_at = now()
+      WHERE id = _order_id;
+      RETURN _offered;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Moves every open order along: first waves for new orders, the next wave for
+-- orders whose offers have all run out. Scheduled below.
+CREATE OR REPLACE FUNCTION public.run_dispatch()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id uuid;
+  _dispatched integer := 0;
+BEGIN
+  UPDATE public.dispatch_offers d
+  SET status = 'withdrawn'
+  FROM public.orders o
+  WHERE o.id = d.order_id
+    AND d.status = 'offered'
+    AND (o.status <> 'pending' OR o.rider_id IS NOT NULL);
+
+  UPDATE public.dispatch_offers
+  SET status = 'expired'
+  WHERE status = 'offered'
+    AND expires_at <= now();
+
+  FOR _order_id IN
+    SELECT o.id
+    FROM public.orders o
+    WHERE o.status = 'pending'
+      AND o.rider_id IS NULL
+      AND NOT public.is_order_broadcast(o.dispatch_wave)
+      AND public.is_order_group_dispatchable(o.order_group_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.dispatch_offers d
+        WHERE d.order_id = o.id AND d.status = 'offered'
+      )
+    ORDER BY o.created_at
+  LOOP
+    PERFORM public.dispatch_order(_order_id);
+    _dispatched := _dispatched + 1;
+  END LOOP;
+
+  RETURN _dispatched;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_order(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.run_dispatch() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.run_dispatch() TO service_role;
+
+-- Orders go out as soon as they can be delivered: cash orders straight away,
+-- online orders once paid
+CREATE OR REPLACE FUNCTION public.dispatch_new_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.dispatch_order(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER orders_dispatch_new
+AFTER INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.dispatch_new_order();
+
+CREATE OR REPLACE FUNCTION public.dispatch_paid_order_group()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id uuid;
+BEGIN
+  FOR _order_id IN SELECT id FROM public.orders WHERE order_group_id = NEW.id LOOP
+    PERFORM public.dispatch_order(_order_id);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER order_groups_dispatch_paid
+AFTER UPDATE OF payment_status ON public.order_groups
+FOR EACH ROW
+WHEN (NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid')
+EXECUTE FUNCTION public.dispatch_paid_order_group();
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('dispatch-orders', '15 seconds', $$SELECT public.run_dispatch()$$);
+
+-- Orders now carry pickup and drop-off coordinates
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _customer_phone text,
+  _expected_total numeric DEFAULT NULL,
+  _payment_method public.payment_method DEFAULT 'online'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid := auth.uid();
+  _delivery_address text;
+  _dropoff_latitude double precision;
+  _dropoff_longitude double precision;
+  _total numeric;
+  _group_id uuid;
+  _order_id uuid;
+  _vendor_id uuid;
+  _shortages jsonb;
+BEGIN
+  IF _customer_id IS NULL OR NOT has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Customer account required';
+  END IF;
+
+  SELECT public.format_customer_address(a), a.latitude, a.longitude
+  INTO _delivery_address, _dropoff_latitude, _dropoff_longitude
+  FROM public.customer_addresses a
+  WHERE a.id = _address_id AND a.customer_id = _customer_id;
+
+  IF _delivery_address IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address';
+  END IF;
+
+  IF trim(COALESCE(_customer_phone, '')) = '' THEN
+    RAISE EXCEPTION 'Phone number is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+    WHERE i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be at least 1';
+  END IF;
+
+  -- Lock in id order so concurrent checkouts of overlapping carts cannot deadlock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT i.product_id FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE _order_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.vendor_id, p.name, p.price, p.stock, sum(i.quantity)::integer AS quantity
+  FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  JOIN public.products p ON p.id = i.product_id
+  GROUP BY p.id, p.vendor_id, p.name, p.price, p.stock;
+
+  IF NOT EXISTS (SELECT 1 FROM _order_lines) THEN
+    RAISE EXCEPTION 'Your order has no available products';
+  END IF;
+
+  IF (SELECT count(*) FROM _order_lines) <> (
+    SELECT count(DISTINCT i.product_id) FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  ) THEN
+    RAISE EXCEPTION 'Some products in your order are no longer available';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', l.product_id,
+    'name', l.name,
+    'requested', l.quantity,
+    'available', l.stock
+  ))
+  INTO _shortages
+  FROM _order_lines l
+  WHERE l.quantity > l.stock;
+
+  IF _shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'Some items in your order are out of stock'
+      USING HINT = 'out_of_stock', DETAIL = _shortages::text;
+  END IF;
+
+  SELECT sum(price * quantity) INTO _total FROM _order_lines;
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _total THEN
+    RAISE EXCEPTION 'Prices have changed since you loaded checkout. Please review your order.';
+  END IF;
+
+  UPDATE public.products p
+  SET stock = p.stock - l.quantity
+  FROM _order_lines l
+  WHERE p.id = l.product_id;
+
+  INSERT INTO public.order_groups (customer_id, delivery_address, customer_phone, total_amount, payment_method)
+  VALUES (_customer_id, _delivery_address, trim(_customer_phone), _total, COALESCE(_payment_method, 'online'))
+  RETURNING id INTO _group_id;
+
+  FOR _vendor_id IN SELECT DISTINCT vendor_id FROM _order_lines LOOP
+    INSERT INTO public.orders (
+      order_group_id, customer_id, vendor_id, total_amount, delivery_address, customer_phone, cash_due,
+      pickup_latitude, pickup_longitude, dropoff_latitude, dropoff_longitude
+    )
+    SELECT
+      _group_id, _customer_id, _vendor_id, sum(l.price * l.quantity), _delivery_address, trim(_customer_phone),
+      CASE WHEN _payment_method = 'cash_on_delivery' THEN sum(l.price * l.quantity) ELSE 0 END,
+      v.latitude, v.longitude, _dropoff_latitude, _dropoff_longitude
+    FROM _order_lines l
+    LEFT JOIN public.vendor_profiles v ON v.user_id = l.vendor_id
+    WHERE l.vendor_id = _vendor_id
+    GROUP BY v.latitude, v.longitude
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity)
+    SELECT _order_id, l.product_id, l.name, l.price, l.quantity
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id;
+  END LOOP;
+
+  DELETE FROM public.cart_items
+  WHERE customer_id = _customer_id
+    AND product_id IN (SELECT product_id FROM _order_lines);
+
+  DROP TABLE _order_lines;
+
+  RETURN _group_id;
+END;
+$$;
+
+-- Riders take orders through accept_order_offer rather than updating them directly
+DROP POLICY IF EXISTS "Riders can accept orders" ON public.orders;
+
+CREATE OR REPLACE FUNCTION public.accept_order_offer(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rider_id uuid := auth.uid();
+  _order public.orders%ROWTYPE;
+  _offer public.dispatch_offers%ROWTYPE;
+BEGIN
+  IF NOT has_role(_rider_id, 'rider') THEN
+    RAISE EXCEPTION 'Only riders can accept orders';
+  END IF;
+
+  IF NOT public.is_rider_verified(_rider_id) THEN
+    RAISE EXCEPTION 'Your account must be verified before you can accept orders';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _order.status <> 'pending' OR _order.rider_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This order has already been taken';
+  END IF;
+
+  IF NOT public.is_order_group_dispatchable(_order.order_group_id) THEN
+    RAISE EXCEPTION 'This order is waiting for payment';
+  END IF;
+
+  SELECT * INTO _offer
+  FROM public.dispatch_offers
+  WHERE order_id = _order_id AND rider_id = _rider_id;
+
+  IF NOT public.is_order_broadcast(_order.dispatch_wave) THEN
+    IF _offer.id IS NULL THEN
+      RAISE EXCEPTION 'This order hasn''t been offered to you';
+    ELSIF _offer.status <> 'offered' OR _offer.expires_at <= now() THEN
+      RAISE EXCEPTION 'This offer has expired';
+    END IF;
+  END IF;
+
+  UPDATE public.orders
+  SET rider_id = _rider_id,
+      status = 'accepted'
+  WHERE id = _order_id;
+
+  UPDATE public.dispatch_offers
+  SET status = 'withdrawn'
+  WHERE order_id = _order_id
+    AND status = 'offered'
+    AND rider_id <> _rider_id;
+
+  -- Fallback orders have no offer yet; record one so every assignment has a row
+  INSERT INTO public.dispatch_offers (order_id, rider_id, wave, distance_km, status, expires_at, responded_at)
+  SELECT
+    _order_id,
+    _rider_id,
+    _order.dispatch_wave,
+    round(public.distance_km(ra.latitude, ra.longitude, _order.pickup_latitude, _order.pickup_longitude)::numeric, 2),
+    'accepted',
+    now(),
+    now()
+  FROM (SELECT 1) one
+  LEFT JOIN public.rider_availability ra ON ra.rider_id = _rider_id
+  ON CONFLICT (order_id, rider_id) DO UPDATE
+  SET status = 'accepted', responded_at = now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_order_offer(uuid) TO authenticated;
+
+-- Passing on an offer; once the whole wave has passed the next one goes out at once
+CREATE OR REPLACE FUNCTION public.decline_order_offer(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.dispatch_offers
+  SET status = 'declined',
+      responded_at = now()
+  WHERE order_id = _order_id
+    AND rider_id = auth.uid()
+    AND status = 'offered';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This offer is no longer open';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.dispatch_offers
+    WHERE order_id = _order_id AND status = 'offered'
+  ) THEN
+    PERFORM public.dispatch_order(_order_id);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.decline_order_offer(uuid) TO authenticated;
+
+-- Riders see the orders offered to them, plus any that no nearby rider took
+DROP FUNCTION IF EXISTS public.get_pending_orders_for_rider();
+
+CREATE OR REPLACE FUNCTION public.get_pending_orders_for_rider()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  order_group_id uuid,
+  customer_id uuid,
+  vendor_id uuid,
+  rider_id uuid,
+  total_amount numeric,
+  status order_status,
+  cash_due numeric,
+  customer_phone text,
+  delivery_address text,
+  items jsonb,
+  offer_expires_at timestamptz,
+  pickup_distance_km numeric,
+  delivery_distance_km numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.created_at,
+    o.updated_at,
+    o.order_group_id,
+    o.customer_id,
+    o.vendor_id,
+    o.rider_id,
+    o.total_amount,
+    o.status,
+    o.cash_due,
+    '***-***-' || RIGHT(o.customer_phone, 4) AS customer_phone,
+    SUBSTRING(o.delivery_address, 1, 20) || '...' AS delivery_address,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', i.id,
+          'product_id', i.product_id,
+          'product_name', i.product_name,
+          'product_price', i.product_price,
+          'quantity', i.quantity
+        )
+        ORDER BY i.created_at
+      )
+      FROM public.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb) AS items,
+    d.expires_at AS offer_expires_at,
+    COALESCE(
+      d.distance_km,
+      round(public.distance_km(ra.latitude, ra.longitude, o.pickup_latitude, o.pickup_longitude)::numeric, 2)
+    ) AS pickup_distance_km,
+    round(public.distance_km(o.pickup_latitude, o.pickup_longitude, o.dropoff_latitude, o.dropoff_longitude)::numeric, 2)
+      AS delivery_distance_km
+  FROM public.orders o
+  LEFT JOIN public.dispatch_offers d
+    ON d.order_id = o.id
+   AND d.rider_id = auth.uid()
+   AND d.status = 'offered'
+   AND d.expires_at > now()
+  LEFT JOIN public.rider_availability ra ON ra.rider_id = auth.uid()
+  WHERE o.status = 'pending'
+    AND o.rider_id IS NULL
+    AND public.is_order_group_dispatchable(o.order_group_id)
+    AND has_role(auth.uid(), 'rider')
+    AND (d.id IS NOT NULL OR public.is_order_broadcast(o.dispatch_wave))
+  ORDER BY d.expires_at NULLS LAST, o.created_at
+$$;
@@ -0,0 +1,96 @@
+-- Live rider positions for orders that are on the way to the customer
+CREATE TABLE public.rider_locations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rider_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  latitude double precision NOT NULL,
+  longitude double precision NOT NULL,
+  heading double precision,
+  speed double precision,
+  accuracy double precision,
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX rider_locations_order_id_recorded_at_idx ON public.rider_locations (order_id, recorded_at);
+
+ALTER TABLE public.rider_locations ENABLE ROW LEVEL SECURITY;
+
+-- Sharing stops on its own once the order leaves accepted/in_transit
+CREATE OR REPLACE FUNCTION public.is_order_trackable(_order_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = _order_id
+      AND status IN ('accepted', 'in_transit')
+  )
+$$;
+
+CREATE POLICY "Riders can share their location for their active orders"
+ON public.rider_locations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  rider_id = auth.uid()
+  AND has_role(auth.uid(), 'rider')
+  AND EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND o.rider_id = auth.uid()
+      AND o.status IN ('accepted', 'in_transit')
+  )
+);
+
+CREATE POLICY "Riders can view their own locations"
+ON public.rider_locations
+FOR SELECT
+TO authenticated
+USING (rider_id = auth.uid());
+
+CREATE POLICY "Customers can track riders on their active orders"
+ON public.rider_locations
+FOR SELECT
+TO authenticated
+USING (
+  public.is_order_trackable(order_id)
+  AND EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND o.customer_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view rider locations"
+ON public.rider_locations
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- A rider on a delivery is still the best location we have for dispatch
+CREATE OR REPLACE FUNCTION public.sync_rider_availability_location()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.rider_availability
+  SET latitude = NEW.latitude,
+      longitude = NEW.longitude,
+      location_updated_at = NEW.recorded_at
+  WHERE rider_id = NEW.rider_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_rider_availability_location
+AFTER INSERT ON public.rider_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_rider_availability_location();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.rider_locations;
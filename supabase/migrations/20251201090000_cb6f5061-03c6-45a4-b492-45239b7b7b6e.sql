@@ -0,0 +1,201 @@
+-- Every status an order passes through, for timelines and delivery SLAs
+CREATE TABLE public.order_status_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status public.order_status,
+  to_status public.order_status NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_status_events_order_id_created_at_idx ON public.order_status_events (order_id, created_at);
+
+ALTER TABLE public.order_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order participants can view status history"
+ON public.order_status_events
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND (o.customer_id = auth.uid() OR o.rider_id = auth.uid() OR o.vendor_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Admins can view status history"
+ON public.order_status_events
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- Functions that change a status can explain why with
+-- set_config('app.order_status_note', '...', true) before the update
+CREATE OR REPLACE FUNCTION public.record_order_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.order_status_events (order_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.order_status_note', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_record_status_event
+AFTER INSERT OR UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.record_order_status_event();
+
+-- Existing orders only have their creation and their current status to go on
+INSERT INTO public.order_status_events (order_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, 'pending', customer_id, created_at
+FROM public.orders;
+
+INSERT INTO public.order_status_events (order_id, from_status, to_status, note, created_at)
+SELECT id, NULL, status, 'Recorded before status history was kept', updated_at
+FROM public.orders
+WHERE status <> 'pending';
+
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.order_status_note', 'Cancelled by the customer', true);
+
+  UPDATE public.orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+    AND customer_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending orders can be cancelled';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_cancel_order(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', 'Cancelled by support', true);
+
+  UPDATE public.orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+    AND status NOT IN ('delivered', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only orders that are still open can be cancelled';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_reassign_order(_order_id uuid, _rider_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NOT has_role(_rider_id, 'rider') THEN
+    RAISE EXCEPTION 'Orders can only be assigned to active riders';
+  END IF;
+
+  IF NOT public.is_rider_verified(_rider_id) THEN
+    RAISE EXCEPTION 'Orders can only be assigned to verified riders';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', 'Assigned to a rider by support', true);
+
+  UPDATE public.orders
+  SET rider_id = _rider_id,
+      status = CASE WHEN status = 'pending' THEN 'accepted'::public.order_status ELSE status END
+  WHERE id = _order_id
+    AND status NOT IN ('delivered', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only orders that are still open can be reassigned';
+  END IF;
+END;
+$$;
+
+-- How long orders spend in each status, over orders created since _since.
+-- Only steps with a known previous status count, so backfilled history is left out.
+CREATE OR REPLACE FUNCTION public.admin_get_order_stage_durations(_since timestamptz DEFAULT now() - interval '30 days')
+RETURNS TABLE (
+  stage public.order_status,
+  next_status public.order_status,
+  orders bigint,
+  average_minutes numeric,
+  median_minutes numeric,
+  p90_minutes numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  WITH steps AS (
+    SELECT
+      e.from_status,
+      e.to_status,
+      lag(e.to_status) OVER w AS previous_status,
+      extract(epoch FROM e.created_at - lag(e.created_at) OVER w) / 60 AS minutes
+    FROM public.order_status_events e
+    JOIN public.orders o ON o.id = e.order_id
+    WHERE o.created_at >= _since
+    WINDOW w AS (PARTITION BY e.order_id ORDER BY e.created_at)
+  )
+  SELECT
+    s.from_status,
+    s.to_status,
+    count(*),
+    round(avg(s.minutes)::numeric, 1),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY s.minutes))::numeric, 1),
+    round((percentile_cont(0.9) WITHIN GROUP (ORDER BY s.minutes))::numeric, 1)
+  FROM steps s
+  WHERE s.from_status IS NOT NULL
+    AND s.from_status = s.previous_status
+  GROUP BY s.from_status, s.to_status
+  ORDER BY s.from_status, s.to_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_get_order_stage_durations(timestamptz) TO authenticated;
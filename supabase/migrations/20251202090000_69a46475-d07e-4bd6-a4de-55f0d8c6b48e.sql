@@ -0,0 +1,2 @@
+-- Riders confirm collecting from the vendor before heading out
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'picked_up' AFTER 'accepted';
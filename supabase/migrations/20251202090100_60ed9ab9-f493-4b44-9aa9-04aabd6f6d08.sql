@@ -0,0 +1,215 @@
+-- Orders only move forward: pending → accepted → picked_up → in_transit → delivered,
+-- and can be cancelled until delivered by whoever is allowed to at that stage
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _is_admin boolean := has_role(auth.uid(), 'admin');
+  _from text := replace(OLD.status::text, '_', ' ');
+  _to text := replace(NEW.status::text, '_', ' ');
+BEGIN
+  IF OLD.status IN ('delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'This order is already % and can''t be changed', _from;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status = 'accepted') OR
+    (OLD.status = 'accepted' AND NEW.status = 'picked_up') OR
+    (OLD.status = 'picked_up' AND NEW.status = 'in_transit') OR
+    (OLD.status = 'in_transit' AND NEW.status = 'delivered') OR
+    NEW.status = 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'An order that is % can''t be marked %', _from, _to;
+  END IF;
+
+  -- Scheduled jobs and the service role act without a signed-in user
+  IF _actor IS NULL OR _is_admin THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF _actor = OLD.customer_id AND OLD.status = 'pending' THEN
+      RETURN NEW;
+    ELSIF _actor = OLD.customer_id THEN
+      RAISE EXCEPTION 'A rider is already on this order, so contact support to cancel it';
+    ELSE
+      RAISE EXCEPTION 'Only the customer or support can cancel an order';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    IF NEW.rider_id IS NULL OR _actor <> NEW.rider_id THEN
+      RAISE EXCEPTION 'Orders can only be accepted by the rider taking them';
+    END IF;
+  ELSIF OLD.rider_id IS NULL OR _actor <> OLD.rider_id THEN
+    RAISE EXCEPTION 'Only the rider delivering this order can mark it %', _to;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_enforce_status_transition
+BEFORE UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (NEW.status IS DISTINCT FROM OLD.status)
+EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- Everything else about an order is set by place_order and the RPCs; the
+-- remaining direct update anyone has is moving the status along
+REVOKE INSERT, UPDATE ON public.orders FROM anon, authenticated;
+
+GRANT UPDATE (status) ON public.orders TO authenticated;
+
+DROP POLICY IF EXISTS "Riders can update their orders" ON public.orders;
+
+CREATE POLICY "Riders can update their orders"
+ON public.orders
+FOR UPDATE
+TO authenticated
+USING (
+  rider_id = auth.uid() AND
+  public.has_role(auth.uid(), 'rider')
+)
+WITH CHECK (
+  rider_id = auth.uid() AND
+  status IN ('picked_up', 'in_transit', 'delivered')
+);
+
+-- Customers keep following the rider between pickup and heading out
+CREATE OR REPLACE FUNCTION public.is_order_trackable(_order_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = _order_id
+      AND status IN ('accepted', 'picked_up', 'in_transit')
+  )
+$$;
+
+DROP POLICY IF EXISTS "Riders can share their location for their active orders" ON public.rider_locations;
+
+CREATE POLICY "Riders can share their location for their active orders"
+ON public.rider_locations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  rider_id = auth.uid()
+  AND has_role(auth.uid(), 'rider')
+  AND EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND o.rider_id = auth.uid()
+      AND o.status IN ('accepted', 'picked_up', 'in_transit')
+  )
+);
+
+-- Riders who have collected an order but not set off are still busy
+CREATE OR REPLACE FUNCTION public.dispatch_order(_order_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _wave public.dispatch_waves%ROWTYPE;
+  _offered integer := 0;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR _order.status <> 'pending'
+     OR _order.rider_id IS NOT NULL
+     OR public.is_order_broadcast(_order.dispatch_wave)
+     OR NOT public.is_order_group_dispatchable(_order.order_group_id) THEN
+    RETURN 0;
+  END IF;
+
+  -- Whoever hasn't answered the previous wave has missed their window
+  UPDATE public.dispatch_offers
+  SET status = 'expired'
+  WHERE order_id = _order_id
+    AND status = 'offered';
+
+  -- Without a pickup point there's nothing to measure from
+  IF _order.pickup_latitude IS NULL OR _order.pickup_longitude IS NULL THEN
+    UPDATE public.orders
+    SET dispatch_wave = COALESCE((SELECT max(wave) FROM public.dispatch_waves), 0) + 1,
+        dispatched_at = now()
+    WHERE id = _order_id;
+    RETURN 0;
+  END IF;
+
+  LOOP
+    SELECT * INTO _wave
+    FROM public.dispatch_waves
+    WHERE wave > _order.dispatch_wave
+    ORDER BY wave
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      UPDATE public.orders
+      SET dispatch_wave = _order.dispatch_wave + 1,
+          dispatched_at = now()
+      WHERE id = _order_id;
+      RETURN 0;
+    END IF;
+
+    _order.dispatch_wave := _wave.wave;
+
+    -- Nearest verified riders on duty with a recent location, who aren't
+    -- already carrying an order and weren't asked about this one before
+    INSERT INTO public.dispatch_offers (order_id, rider_id, wave, distance_km, expires_at)
+    SELECT
+      _order_id,
+      nearby.rider_id,
+      _wave.wave,
+      round(nearby.distance::numeric, 2),
+      now() + make_interval(secs => _wave.accept_seconds)
+    FROM (
+      SELECT
+        ra.rider_id,
+        public.distance_km(ra.latitude, ra.longitude, _order.pickup_latitude, _order.pickup_longitude) AS distance
+      FROM public.rider_availability ra
+      WHERE ra.is_available
+        AND ra.latitude IS NOT NULL
+        AND ra.location_updated_at > now() - interval '10 minutes'
+        AND has_role(ra.rider_id, 'rider')
+        AND public.is_rider_verified(ra.rider_id)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.dispatch_offers d
+          WHERE d.order_id = _order_id AND d.rider_id = ra.rider_id
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM public.orders busy
+          WHERE busy.rider_id = ra.rider_id
+            AND busy.status IN ('accepted', 'picked_up', 'in_transit')
+        )
+    ) nearby
+    WHERE nearby.distance <= _wave.radius_km
+    ORDER BY nearby.distance
+    LIMIT _wave.max_offers;
+
+    GET DIAGNOSTICS _offered = ROW_COUNT;
+
+    IF _offered > 0 THEN
+      UPDATE public.orders
+      SET dispatch_wave = _wave.wave,
+          dispatched_at = now()
+      WHERE id = _order_id;
+      RETURN _offered;
+    END IF;
+  END LOOP;
+END;
+$$;
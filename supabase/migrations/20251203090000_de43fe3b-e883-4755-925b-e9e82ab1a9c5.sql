@@ -0,0 +1,246 @@
+-- Proof of delivery: the customer reads a code to the rider, who may also photograph the handover
+ALTER TABLE public.orders
+  ADD COLUMN delivery_confirmed_at timestamptz,
+  ADD COLUMN delivery_photo_path text;
+
+-- Kept apart from orders because riders can read every column of their orders
+CREATE TABLE public.order_delivery_codes (
+  order_id uuid NOT NULL PRIMARY KEY REFERENCES public.orders(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.order_delivery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their delivery codes"
+ON public.order_delivery_codes
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND o.customer_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view delivery codes"
+ON public.order_delivery_codes
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.generate_delivery_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT lpad(floor(random() * 10000)::int::text, 4, '0')
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_order_delivery_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_delivery_codes (order_id, code)
+  VALUES (NEW.id, public.generate_delivery_code());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_create_delivery_code
+AFTER INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.create_order_delivery_code();
+
+INSERT INTO public.order_delivery_codes (order_id, code)
+SELECT id, public.generate_delivery_code()
+FROM public.orders
+WHERE status NOT IN ('delivered', 'cancelled');
+
+-- Riders can no longer mark an order delivered by updating it directly
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _is_admin boolean := has_role(auth.uid(), 'admin');
+  _from text := replace(OLD.status::text, '_', ' ');
+  _to text := replace(NEW.status::text, '_', ' ');
+BEGIN
+  IF OLD.status IN ('delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'This order is already % and can''t be changed', _from;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status = 'accepted') OR
+    (OLD.status = 'accepted' AND NEW.status = 'picked_up') OR
+    (OLD.status = 'picked_up' AND NEW.status = 'in_transit') OR
+    (OLD.status = 'in_transit' AND NEW.status = 'delivered') OR
+    NEW.status = 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'An order that is % can''t be marked %', _from, _to;
+  END IF;
+
+  -- Scheduled jobs and the service role act without a signed-in user
+  IF _actor IS NULL OR _is_admin THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF _actor = OLD.customer_id AND OLD.status = 'pending' THEN
+      RETURN NEW;
+    ELSIF _actor = OLD.customer_id THEN
+      RAISE EXCEPTION 'A rider is already on this order, so contact support to cancel it';
+    ELSE
+      RAISE EXCEPTION 'Only the customer or support can cancel an order';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    IF NEW.rider_id IS NULL OR _actor <> NEW.rider_id THEN
+      RAISE EXCEPTION 'Orders can only be accepted by the rider taking them';
+    END IF;
+  ELSIF OLD.rider_id IS NULL OR _actor <> OLD.rider_id THEN
+    RAISE EXCEPTION 'Only the rider delivering this order can mark it %', _to;
+  END IF;
+
+  IF NEW.status = 'delivered' AND NEW.delivery_confirmed_at IS NULL THEN
+    RAISE EXCEPTION 'Enter the customer''s delivery code to mark this order delivered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Photos sit in the rider's folder; the order's customer and vendor can see them once attached
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('delivery-proofs', 'delivery-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Riders can view their own delivery photos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'delivery-proofs' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Customers and vendors can view their delivery photos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'delivery-proofs' AND
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.delivery_photo_path = name
+      AND (o.customer_id = auth.uid() OR o.vendor_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Admins can view delivery photos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'delivery-proofs' AND
+  has_role(auth.uid(), 'admin')
+);
+
+CREATE POLICY "Riders can upload delivery photos"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'delivery-proofs' AND
+  (storage.foldername(name))[1] = auth.uid()::text AND
+  has_role(auth.uid(), 'rider')
+);
+
+CREATE POLICY "Riders can delete their unattached delivery photos"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'delivery-proofs' AND
+  (storage.foldername(name))[1] = auth.uid()::text AND
+  NOT EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.delivery_photo_path = name
+  )
+);
+
+-- Marks an in-transit order delivered once the rider enters the customer's code.
+-- Wrong codes return false rather than raising so the attempt is still counted.
+CREATE OR REPLACE FUNCTION public.confirm_delivery(_order_id uuid, _code text, _photo_path text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _delivery_code public.order_delivery_codes;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND rider_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Only orders in transit can be delivered';
+  END IF;
+
+  IF _photo_path IS NOT NULL AND split_part(_photo_path, '/', 1) <> auth.uid()::text THEN
+    RAISE EXCEPTION 'Delivery photos must be uploaded from your own account';
+  END IF;
+
+  SELECT * INTO _delivery_code
+  FROM public.order_delivery_codes
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This order has no delivery code. Contact support to complete it.';
+  END IF;
+
+  IF _delivery_code.failed_attempts >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong codes. Contact support to complete this delivery.';
+  END IF;
+
+  IF _delivery_code.code <> trim(_code) THEN
+    UPDATE public.order_delivery_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE order_id = _order_id;
+    RETURN false;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', CASE
+    WHEN _photo_path IS NOT NULL THEN 'Delivery code confirmed, photo taken'
+    ELSE 'Delivery code confirmed'
+  END, true);
+
+  UPDATE public.orders
+  SET status = 'delivered',
+      delivery_confirmed_at = now(),
+      delivery_photo_path = _photo_path
+  WHERE id = _order_id;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_delivery(uuid, text, text) TO authenticated;
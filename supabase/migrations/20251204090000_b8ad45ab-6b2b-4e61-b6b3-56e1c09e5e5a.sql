@@ -0,0 +1,5 @@
+-- Dispatch is only driven by the triggers and the scheduled job; Supabase grants
+-- EXECUTE on new functions to anon and authenticated directly, so revoke those too
+REVOKE EXECUTE ON FUNCTION public.dispatch_order(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_dispatch() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_dispatch() TO service_role;
@@ -0,0 +1,6 @@
+-- Slug collisions have to be checked against every vendor, not just the rows the
+-- renaming vendor can see, so the slug is generated as the owner
+ALTER FUNCTION public.generate_vendor_slug(text, uuid) SECURITY DEFINER;
+ALTER FUNCTION public.set_vendor_slug() SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.generate_vendor_slug(text, uuid) FROM PUBLIC, anon, authenticated;
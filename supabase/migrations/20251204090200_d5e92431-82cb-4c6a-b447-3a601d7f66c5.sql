@@ -0,0 +1,133 @@
+-- The total shown at checkout is a floating point sum in the browser, so compare to the kobo
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _customer_phone text,
+  _expected_total numeric DEFAULT NULL,
+  _payment_method public.payment_method DEFAULT 'online'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid := auth.uid();
+  _delivery_address text;
+  _dropoff_latitude double precision;
+  _dropoff_longitude double precision;
+  _total numeric;
+  _group_id uuid;
+  _order_id uuid;
+  _vendor_id uuid;
+  _shortages jsonb;
+BEGIN
+  IF _customer_id IS NULL OR NOT has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Customer account required';
+  END IF;
+
+  SELECT public.format_customer_address(a), a.latitude, a.longitude
+  INTO _delivery_address, _dropoff_latitude, _dropoff_longitude
+  FROM public.customer_addresses a
+  WHERE a.id = _address_id AND a.customer_id = _customer_id;
+
+  IF _delivery_address IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address';
+  END IF;
+
+  IF trim(COALESCE(_customer_phone, '')) = '' THEN
+    RAISE EXCEPTION 'Phone number is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+    WHERE i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be at least 1';
+  END IF;
+
+  -- Lock in id order so concurrent checkouts of overlapping carts cannot deadlock
+  PERFORM 1
+  FROM public.products p
+  WHERE p.id IN (SELECT i.product_id FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE _order_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.vendor_id, p.name, p.price, p.stock, sum(i.quantity)::integer AS quantity
+  FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  JOIN public.products p ON p.id = i.product_id
+  GROUP BY p.id, p.vendor_id, p.name, p.price, p.stock;
+
+  IF NOT EXISTS (SELECT 1 FROM _order_lines) THEN
+    RAISE EXCEPTION 'Your order has no available products';
+  END IF;
+
+  IF (SELECT count(*) FROM _order_lines) <> (
+    SELECT count(DISTINCT i.product_id) FROM jsonb_to_recordset(_items) AS i(product_id uuid, quantity integer)
+  ) THEN
+    RAISE EXCEPTION 'Some products in your order are no longer available';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', l.product_id,
+    'name', l.name,
+    'requested', l.quantity,
+    'available', l.stock
+  ))
+  INTO _shortages
+  FROM _order_lines l
+  WHERE l.quantity > l.stock;
+
+  IF _shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'Some items in your order are out of stock'
+      USING HINT = 'out_of_stock', DETAIL = _shortages::text;
+  END IF;
+
+  SELECT sum(price * quantity) INTO _total FROM _order_lines;
+
+  IF _expected_total IS NOT NULL AND round(_expected_total, 2) <> round(_total, 2) THEN
+    RAISE EXCEPTION 'Prices have changed since you loaded checkout. Please review your order.';
+  END IF;
+
+  UPDATE public.products p
+  SET stock = p.stock - l.quantity
+  FROM _order_lines l
+  WHERE p.id = l.product_id;
+
+  INSERT INTO public.order_groups (customer_id, delivery_address, customer_phone, total_amount, payment_method)
+  VALUES (_customer_id, _delivery_address, trim(_customer_phone), _total, COALESCE(_payment_method, 'online'))
+  RETURNING id INTO _group_id;
+
+  FOR _vendor_id IN SELECT DISTINCT vendor_id FROM _order_lines LOOP
+    INSERT INTO public.orders (
+      order_group_id, customer_id, vendor_id, total_amount, delivery_address, customer_phone, cash_due,
+      pickup_latitude, pickup_longitude, dropoff_latitude, dropoff_longitude
+    )
+    SELECT
+      _group_id, _customer_id, _vendor_id, sum(l.price * l.quantity), _delivery_address, trim(_customer_phone),
+      CASE WHEN _payment_method = 'cash_on_delivery' THEN sum(l.price * l.quantity) ELSE 0 END,
+      v.latitude, v.longitude, _dropoff_latitude, _dropoff_longitude
+    FROM _order_lines l
+    LEFT JOIN public.vendor_profiles v ON v.user_id = l.vendor_id
+    WHERE l.vendor_id = _vendor_id
+    GROUP BY v.latitude, v.longitude
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity)
+    SELECT _order_id, l.product_id, l.name, l.price, l.quantity
+    FROM _order_lines l
+    WHERE l.vendor_id = _vendor_id;
+  END LOOP;
+
+  DELETE FROM public.cart_items
+  WHERE customer_id = _customer_id
+    AND product_id IN (SELECT product_id FROM _order_lines);
+
+  DROP TABLE _order_lines;
+
+  RETURN _group_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text, numeric, public.payment_method) TO authenticated;
@@ -0,0 +1,121 @@
+-- Online checkouts reserve stock when placed, so give the customer a while to pay
+-- and then release it. Cancelling the orders restores their stock.
+CREATE OR REPLACE FUNCTION public.expire_unpaid_checkouts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _group_id uuid;
+  _expired integer := 0;
+  _cancelled integer;
+BEGIN
+  PERFORM set_config('app.order_status_note', 'Payment wasn''t completed in time', true);
+
+  -- Locking the checkout keeps a payment that lands right now from racing the expiry
+  FOR _group_id IN
+    SELECT g.id
+    FROM public.order_groups g
+    WHERE g.payment_method = 'online'
+      AND g.payment_status IN ('pending', 'failed')
+      AND g.created_at < now() - interval '30 minutes'
+      AND EXISTS (
+        SELECT 1 FROM public.orders o
+        WHERE o.order_group_id = g.id AND o.status = 'pending'
+      )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE order_group_id = _group_id
+      AND status = 'pending';
+
+    GET DIAGNOSTICS _cancelled = ROW_COUNT;
+    _expired := _expired + _cancelled;
+  END LOOP;
+
+  RETURN _expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_unpaid_checkouts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_unpaid_checkouts() TO service_role;
+
+SELECT cron.schedule('expire-unpaid-checkouts', '* * * * *', $$SELECT public.expire_unpaid_checkouts()$$);
+
+-- Applies a verified gateway result to a payment exactly once. Later calls for
+-- the same payment are no-ops that report the stored status, except that a
+-- failed payment still accepts a verified success: customers can retry a
+-- declined card on the same reference. A successful charge that cannot pay for
+-- its checkout (wrong amount or currency, the checkout was paid by another
+-- payment meanwhile, or it expired unpaid) is marked refunded and needs_refund
+-- tells the caller to send the money back.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _provider text,
+  _reference text,
+  _succeeded boolean,
+  _amount numeric,
+  _currency text DEFAULT 'NGN',
+  _provider_response jsonb DEFAULT NULL
+)
+RETURNS TABLE (status public.payment_status, needs_refund boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _group_status public.payment_status;
+  _status public.payment_status;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments p
+  WHERE p.provider = _provider AND p.reference = _reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown % payment reference %', _provider, _reference;
+  END IF;
+
+  IF NOT (_payment.status = 'pending' OR (_payment.status = 'failed' AND _succeeded)) THEN
+    RETURN QUERY SELECT _payment.status, false;
+    RETURN;
+  END IF;
+
+  -- Serialises competing payments for the same checkout
+  SELECT g.payment_status INTO _group_status
+  FROM public.order_groups g
+  WHERE g.id = _payment.order_group_id
+  FOR UPDATE;
+
+  _status := CASE
+    WHEN NOT _succeeded THEN 'failed'::public.payment_status
+    WHEN upper(COALESCE(_currency, '')) <> 'NGN'
+      OR _amount <> _payment.amount
+      OR _group_status = 'paid'
+      OR NOT EXISTS (
+        SELECT 1 FROM public.orders o
+        WHERE o.order_group_id = _payment.order_group_id AND o.status <> 'cancelled'
+      ) THEN 'refunded'::public.payment_status
+    ELSE 'paid'::public.payment_status
+  END;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_response = COALESCE(_provider_response, provider_response),
+      paid_at = CASE WHEN _status = 'paid' THEN now() END
+  WHERE id = _payment.id;
+
+  IF _status = 'paid' THEN
+    UPDATE public.order_groups
+    SET payment_status = 'paid', paid_at = now()
+    WHERE id = _payment.order_group_id;
+  END IF;
+
+  RETURN QUERY SELECT _status, _status = 'refunded';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_result(text, text, boolean, numeric, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(text, text, boolean, numeric, text, jsonb) TO service_role;
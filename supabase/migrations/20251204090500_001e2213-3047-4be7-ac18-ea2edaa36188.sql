@@ -0,0 +1,22 @@
+-- A review stays on the product it was written for; only its rating and comment can change
+DROP POLICY IF EXISTS "Customers can update their own reviews" ON public.product_reviews;
+
+CREATE POLICY "Customers can update their own reviews"
+ON public.product_reviews
+FOR UPDATE
+TO authenticated
+USING (customer_id = auth.uid())
+WITH CHECK (customer_id = auth.uid());
+
+REVOKE UPDATE ON public.product_reviews FROM anon, authenticated;
+
+GRANT UPDATE (rating, comment) ON public.product_reviews TO authenticated;
+
+-- browse_products always filters on the normalised category before sorting and paging
+DROP INDEX IF EXISTS public.products_newest_idx;
+DROP INDEX IF EXISTS public.products_price_idx;
+DROP INDEX IF EXISTS public.products_popularity_idx;
+
+CREATE INDEX products_category_newest_idx ON public.products (lower(trim(category)), created_at DESC, id DESC);
+CREATE INDEX products_category_price_idx ON public.products (lower(trim(category)), price, id);
+CREATE INDEX products_category_popularity_idx ON public.products (lower(trim(category)), sales_count DESC, id DESC);
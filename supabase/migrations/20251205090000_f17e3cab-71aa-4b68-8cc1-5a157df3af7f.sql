@@ -0,0 +1,8 @@
+-- Ratings and sales are kept by the review and order triggers; vendors only edit the listing itself
+REVOKE INSERT, UPDATE ON public.products FROM anon, authenticated;
+
+GRANT INSERT (vendor_id, name, description, price, image_url, stock, category)
+ON public.products TO authenticated;
+
+GRANT UPDATE (name, description, price, image_url, stock, category)
+ON public.products TO authenticated;
@@ -0,0 +1,49 @@
+-- Support can only hand over orders a rider could have taken themselves, and a
+-- handed-over order is withdrawn from the riders it was still offered to
+CREATE OR REPLACE FUNCTION public.admin_reassign_order(_order_id uuid, _rider_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NOT has_role(_rider_id, 'rider') THEN
+    RAISE EXCEPTION 'Orders can only be assigned to active riders';
+  END IF;
+
+  IF NOT public.is_rider_verified(_rider_id) THEN
+    RAISE EXCEPTION 'Orders can only be assigned to verified riders';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _order.status IN ('delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'Only orders that are still open can be reassigned';
+  END IF;
+
+  IF _order.status = 'pending' AND NOT public.is_order_group_dispatchable(_order.order_group_id) THEN
+    RAISE EXCEPTION 'This order is waiting for payment and can''t be assigned yet';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', 'Assigned to a rider by support', true);
+
+  UPDATE public.orders
+  SET rider_id = _rider_id,
+      status = CASE WHEN status = 'pending' THEN 'accepted'::public.order_status ELSE status END
+  WHERE id = _order_id;
+
+  UPDATE public.dispatch_offers
+  SET status = 'withdrawn'
+  WHERE order_id = _order_id
+    AND status = 'offered';
+END;
+$$;
@@ -0,0 +1,21 @@
+-- Positions come from the rider's device, so the server stamps the time and
+-- rejects coordinates that can't be on a map
+ALTER TABLE public.rider_locations
+ADD CONSTRAINT rider_locations_coordinates_check
+CHECK (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180);
+
+CREATE OR REPLACE FUNCTION public.stamp_rider_location()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.recorded_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rider_locations_stamp_recorded_at
+BEFORE INSERT ON public.rider_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_rider_location();
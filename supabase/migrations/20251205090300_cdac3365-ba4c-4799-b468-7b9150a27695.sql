@@ -0,0 +1,74 @@
+-- Storefront stats from the status history: a customer cancelling before the vendor
+-- accepted says nothing about the vendor, and delivery time is when the order was
+-- marked delivered rather than its last update.
+CREATE OR REPLACE FUNCTION public.get_vendor_storefront(_slug text)
+RETURNS TABLE (
+  user_id uuid,
+  slug text,
+  business_name text,
+  business_description text,
+  logo_url text,
+  banner_url text,
+  member_since timestamptz,
+  product_count integer,
+  rating_average numeric,
+  rating_count integer,
+  orders_delivered integer,
+  fulfilment_rate numeric,
+  average_delivery_minutes integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    v.user_id,
+    v.slug,
+    v.business_name,
+    v.business_description,
+    v.logo_url,
+    v.banner_url,
+    v.created_at,
+    COALESCE(p.product_count, 0)::integer,
+    COALESCE(round(p.rating_total / NULLIF(p.rating_count, 0), 2), 0),
+    COALESCE(p.rating_count, 0)::integer,
+    COALESCE(o.delivered, 0)::integer,
+    round(o.delivered::numeric / NULLIF(o.delivered + o.cancelled, 0), 2),
+    o.average_delivery_minutes::integer
+  FROM public.vendor_profiles v
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) AS product_count,
+      sum(pr.rating_average * pr.rating_count) AS rating_total,
+      sum(pr.rating_count) AS rating_count
+    FROM public.products pr
+    WHERE pr.vendor_id = v.user_id
+  ) p ON true
+  -- Settled orders from the last 90 days, each with the event that settled it.
+  -- Cancellations count once the vendor had accepted, or when support stepped in.
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE od.status = 'delivered') AS delivered,
+      count(*) FILTER (
+        WHERE od.status = 'cancelled'
+          AND (s.from_status <> 'pending' OR public.has_role(s.changed_by, 'admin'))
+      ) AS cancelled,
+      avg(extract(epoch FROM s.created_at - od.created_at) / 60)
+        FILTER (WHERE od.status = 'delivered') AS average_delivery_minutes
+    FROM public.orders od
+    LEFT JOIN LATERAL (
+      SELECT e.from_status, e.changed_by, e.created_at
+      FROM public.order_status_events e
+      WHERE e.order_id = od.id
+        AND e.to_status = od.status
+      ORDER BY e.created_at DESC
+      LIMIT 1
+    ) s ON true
+    WHERE od.vendor_id = v.user_id
+      AND od.status IN ('delivered', 'cancelled')
+      AND od.created_at > now() - interval '90 days'
+  ) o ON true
+  WHERE v.slug = _slug
+    AND public.has_role(v.user_id, 'vendor')
+$$;
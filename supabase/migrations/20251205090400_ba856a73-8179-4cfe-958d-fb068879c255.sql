@@ -0,0 +1,73 @@
+-- Delivery codes guard the hand-over, so draw them from pgcrypto rather than random()
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.generate_delivery_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT lpad((('x' || encode(extensions.gen_random_bytes(4), 'hex'))::bit(32)::bigint % 10000)::text, 4, '0')
+$$;
+
+-- Anything other than four digits, including no code at all, counts as a wrong attempt
+CREATE OR REPLACE FUNCTION public.confirm_delivery(_order_id uuid, _code text, _photo_path text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _delivery_code public.order_delivery_codes;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND rider_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Only orders in transit can be delivered';
+  END IF;
+
+  IF _photo_path IS NOT NULL AND split_part(_photo_path, '/', 1) <> auth.uid()::text THEN
+    RAISE EXCEPTION 'Delivery photos must be uploaded from your own account';
+  END IF;
+
+  SELECT * INTO _delivery_code
+  FROM public.order_delivery_codes
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This order has no delivery code. Contact support to complete it.';
+  END IF;
+
+  IF _delivery_code.failed_attempts >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong codes. Contact support to complete this delivery.';
+  END IF;
+
+  IF _code IS NULL OR trim(_code) !~ '^[0-9]{4}$' OR _delivery_code.code <> trim(_code) THEN
+    UPDATE public.order_delivery_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE order_id = _order_id;
+    RETURN false;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', CASE
+    WHEN _photo_path IS NOT NULL THEN 'Delivery code confirmed, photo taken'
+    ELSE 'Delivery code confirmed'
+  END, true);
+
+  UPDATE public.orders
+  SET status = 'delivered',
+      delivery_confirmed_at = now(),
+      delivery_photo_path = _photo_path
+  WHERE id = _order_id;
+
+  RETURN true;
+END;
+$$;